@@ -1,10 +1,30 @@
-import React, { useState, useEffect } from 'react';
-import { UserState, AppMode, ExerciseResult } from './types';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { UserState, AppMode, ExerciseResult, ExerciseTranscript, ExerciseFocus, FocusProfile, ScenarioPack, ScenarioVariables, ReadingSource, ListeningSource, ExerciseFormat, WritingFormat, CustomReadingText, TermDefinition, GenerationParams, WritingScenario, MockTestResult } from './types';
 import { Dashboard } from './components/Dashboard';
 import { ReadingView } from './components/ReadingView';
 import { WritingView } from './components/WritingView';
-import { Zap, AlertTriangle, X } from 'lucide-react';
+import { RolePlayView } from './components/RolePlayView';
+import { ListeningView } from './components/ListeningView';
+import { ReviewView } from './components/ReviewView';
+import { ReplayView } from './components/ReplayView';
+import { ExerciseSetupView } from './components/ExerciseSetupView';
+import { VocabularyView } from './components/VocabularyView';
+import { MockTestView } from './components/MockTestView';
+import { MockTestReport } from './components/MockTestReport';
+import { PlacementView } from './components/PlacementView';
+import { Zap, AlertTriangle, X, ArrowLeft } from 'lucide-react';
 import { Logger } from './services/logger';
+import { getUserMessage } from './services/aiErrors';
+import { loadUserState, saveUserState, NewerSaveError } from './services/storage';
+import { getSubScores } from './services/rubric';
+import { calculateXp } from './services/xp';
+import { estimateProficiency, getGenerationParams, DEFAULT_STARTING_RATING } from './services/difficulty';
+import { SkillType } from './services/analytics';
+import { pickExerciseVariables } from './services/scenarioPicker';
+import { refreshPrefetchQueue, getPrefetchTarget, setPrefetchTarget, takePrefetched, countPrefetched, subscribePrefetch } from './services/prefetchQueue';
+import { setScenarioPacks } from './services/scenarioCatalog';
+import { createVocabularyEntry, upsertVocabularyEntry, recordQuizResult } from './services/vocabulary';
+import { ReviewGrade, createReviewCards, mergeIntoDeck, scheduleReview } from './services/spacedRepetition';
 
 const XP_PER_LEVEL = 100;
 const MAX_LEVEL = 50;
@@ -12,38 +32,102 @@ const MAX_LEVEL = 50;
 function App() {
   const [mode, setMode] = useState<AppMode>(AppMode.DASHBOARD);
   const [globalError, setGlobalError] = useState<string | null>(null);
+  const [replayEntry, setReplayEntry] = useState<ExerciseResult | null>(null);
+  const [mockReport, setMockReport] = useState<MockTestResult | null>(null);
+  const [setupType, setSetupType] = useState<SkillType>('reading');
+  const [readingSource, setReadingSource] = useState<ReadingSource | null>(null);
+  const [listeningSource, setListeningSource] = useState<ListeningSource | null>(null);
+  const [variables, setVariables] = useState<ScenarioVariables | null>(null);
+  const [writingFormat, setWritingFormat] = useState<WritingFormat>('message');
+  const [prefetchedScenario, setPrefetchedScenario] = useState<WritingScenario | null>(null);
+  // Parameters the current exercise was generated with (older ones when it came from the prefetch queue)
+  const [exerciseParams, setExerciseParams] = useState<GenerationParams | null>(null);
+  const [prefetchReady, setPrefetchReady] = useState(countPrefetched);
   
-  // Initialize state from localStorage or default
-  const [userState, setUserState] = useState<UserState>(() => {
-    try {
-      const saved = localStorage.getItem('techcomm-user');
-      return saved ? JSON.parse(saved) : {
-        level: 1,
-        xp: 0,
-        xpToNextLevel: XP_PER_LEVEL,
-        history: []
-      };
-    } catch (e) {
-      Logger.error("Failed to load user state", e);
-      return { level: 1, xp: 0, xpToNextLevel: XP_PER_LEVEL, history: [] };
-    }
+  const [userState, setUserState] = useState<UserState>({
+    level: 1,
+    xp: 0,
+    xpToNextLevel: XP_PER_LEVEL,
+    startingRating: DEFAULT_STARTING_RATING,
+    history: [],
+    reviewDeck: [],
+    focusProfiles: [],
+    scenarioPacks: [],
+    vocabulary: [],
+    mockTests: []
   });
+  const [hydrated, setHydrated] = useState(false);
+  // Set when the save could not be read; saving stays off so the defaults never replace it
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  // Load saved progress (may be async when backed by IndexedDB). A first launch starts with placement.
+  useEffect(() => {
+    loadUserState()
+      .then(saved => {
+        if (saved) setUserState(saved);
+        else setMode(AppMode.PLACEMENT);
+      })
+      .catch(e => {
+        Logger.error("Failed to load user state", e);
+        setLoadFailed(true);
+        setGlobalError(e instanceof NewerSaveError
+          ? "Your progress was saved by a newer version of TechComm AI. Reload to get the latest version; changes made here will not be saved."
+          : "Could not load your saved progress. Changes made now will not be saved; reload the page to try again.");
+      })
+      .finally(() => setHydrated(true));
+  }, []);
+
+  // Nothing is saved or prefetched until placement has set the starting level,
+  // so a learner who leaves halfway is placed again on the next launch
+  const placing = mode === AppMode.PLACEMENT;
+
+  // Persist state, but never overwrite the save with defaults before it has been loaded
+  useEffect(() => {
+    if (hydrated && !placing && !loadFailed) {
+      saveUserState(userState);
+    }
+  }, [userState, hydrated, placing, loadFailed]);
 
-  // Persist state
+  // Make enabled scenario packs visible to the topic picker and the generators
   useEffect(() => {
-    localStorage.setItem('techcomm-user', JSON.stringify(userState));
-  }, [userState]);
+    setScenarioPacks(userState.scenarioPacks);
+  }, [userState.scenarioPacks]);
+
+  // Re-estimated only when history changes, so an exercise in progress keeps stable parameters
+  const proficiency = useMemo(
+    () => estimateProficiency(userState.history, userState.startingRating),
+    [userState.history, userState.startingRating]
+  );
+  const skillParams = useMemo<Record<SkillType, GenerationParams>>(() => ({
+    reading: getGenerationParams(proficiency.reading),
+    writing: getGenerationParams(proficiency.writing),
+    listening: getGenerationParams(proficiency.listening)
+  }), [proficiency]);
+
+  // Keep a few exercises generated in the background for the learner's level and last focus
+  useEffect(() => subscribePrefetch(() => setPrefetchReady(countPrefetched())), []);
 
-  // Error Handler passed to children
-  const handleError = (msg: string) => {
-    Logger.error("Application Error", { message: msg });
-    setGlobalError(msg);
+  // Packs are listed so toggling one prunes exercises built from the old selection
+  useEffect(() => {
+    if (!hydrated || placing) return;
+    refreshPrefetchQueue({
+      level: userState.level,
+      history: userState.history,
+      params: skillParams
+    });
+  }, [hydrated, placing, userState.level, userState.history, userState.scenarioPacks, skillParams]);
+
+  // Error Handler passed to children. Stable, because the views list it as an effect dependency.
+  // AI failures come with the error itself, which is turned into an actionable hint rather than the raw API message.
+  const handleError = useCallback((message: string, error?: unknown) => {
+    Logger.error("Application Error", { message, error });
+    setGlobalError(error === undefined ? message : `${message} ${getUserMessage(error)}`);
     // Auto clear after 10 seconds
     setTimeout(() => setGlobalError(null), 10000);
-  };
+  }, []);
 
-  const handleExerciseComplete = (score: number, type: 'reading' | 'writing') => {
-    const xpGained = Math.round(score * 1.5); 
+  const handleExerciseComplete = (score: number, transcript: ExerciseTranscript) => {
+    const xpGained = calculateXp(score, transcript);
     
     setUserState(prev => {
       let newXp = prev.xp + xpGained;
@@ -59,29 +143,154 @@ function App() {
 
       const newHistory: ExerciseResult = {
         id: Date.now().toString(),
-        type,
+        type: transcript.type,
         score,
         date: new Date().toISOString(),
-        level: prev.level
+        level: prev.level,
+        transcript,
+        difficulty: (exerciseParams ?? skillParams[transcript.type]).targetRating,
+        subScores: transcript.type === 'writing' && transcript.feedback.rubric
+          ? getSubScores(transcript.feedback.rubric)
+          : undefined
       };
 
       return {
         ...prev,
         level: newLevel,
         xp: newXp,
-        history: [...prev.history, newHistory]
+        history: [...prev.history, newHistory],
+        reviewDeck: mergeIntoDeck(prev.reviewDeck, createReviewCards(transcript))
       };
     });
 
     setMode(AppMode.DASHBOARD);
   };
 
+  const handleOpenSetup = (type: SkillType) => {
+    setSetupType(type);
+    setMode(AppMode.SETUP);
+  };
+
+  // Starts instantly from the prefetch queue when an exercise for this focus and format is ready
+  const startExercise = (type: SkillType, focus: ExerciseFocus, format: ExerciseFormat) => {
+    const target = { type, format, focus };
+    const ready = takePrefetched(target);
+    setPrefetchTarget(target);
+
+    const picked = ready?.variables ?? pickExerciseVariables(type, format, focus, userState.history);
+    if (!picked) {
+      handleError("Your selection excludes every topic or tone.");
+      return;
+    }
+    setExerciseParams(ready?.params ?? skillParams[type]);
+    if (type === 'reading') {
+      setReadingSource({
+        kind: 'generated',
+        format: format === 'thread' ? 'thread' : 'email',
+        variables: picked,
+        exercise: ready?.type === 'reading' ? ready.exercise : undefined
+      });
+      setMode(AppMode.READING);
+    } else if (type === 'listening') {
+      setListeningSource({
+        format: format === 'meeting' ? 'meeting' : 'voicemail',
+        variables: picked,
+        exercise: ready?.type === 'listening' ? ready.exercise : undefined
+      });
+      setMode(AppMode.LISTENING);
+    } else {
+      setVariables(picked);
+      setWritingFormat(format === 'review' || format === 'spoken' || format === 'roleplay' ? format : 'message');
+      setPrefetchedScenario(ready?.type === 'writing' ? ready.scenario : null);
+      setMode(AppMode.WRITING);
+    }
+  };
+
+  const handleStartExercise = (focus: ExerciseFocus, format: ExerciseFormat) => {
+    startExercise(setupType, focus, format);
+  };
+
+  const handleQuickStart = (type: SkillType) => {
+    const { focus, format } = getPrefetchTarget(type);
+    startExercise(type, focus, format);
+  };
+
+  const handleStartCustomReading = (text: CustomReadingText) => {
+    setExerciseParams(skillParams.reading);
+    setReadingSource({ kind: 'custom', text });
+    setMode(AppMode.READING);
+  };
+
+  const handleSaveProfile = (profile: FocusProfile) => {
+    setUserState(prev => ({
+      ...prev,
+      focusProfiles: [...prev.focusProfiles.filter(p => p.id !== profile.id), profile]
+    }));
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    setUserState(prev => ({ ...prev, focusProfiles: prev.focusProfiles.filter(p => p.id !== id) }));
+  };
+
+  const handlePacksChange = (scenarioPacks: ScenarioPack[]) => {
+    setUserState(prev => ({ ...prev, scenarioPacks }));
+  };
+
+  const handleSaveTerm = (definition: TermDefinition, context: string) => {
+    setUserState(prev => ({
+      ...prev,
+      vocabulary: upsertVocabularyEntry(prev.vocabulary, createVocabularyEntry(definition, context))
+    }));
+  };
+
+  const handleVocabularyQuizResult = (entryId: string, correct: boolean) => {
+    setUserState(prev => ({
+      ...prev,
+      vocabulary: prev.vocabulary.map(entry => entry.id === entryId ? recordQuizResult(entry, correct) : entry)
+    }));
+  };
+
+  const handleDeleteVocabulary = (entryId: string) => {
+    setUserState(prev => ({ ...prev, vocabulary: prev.vocabulary.filter(entry => entry.id !== entryId) }));
+  };
+
+  const handleOpenHistory = (entry: ExerciseResult) => {
+    setReplayEntry(entry);
+    setMode(AppMode.REPLAY);
+  };
+
+  // Stored apart from history so a test doesn't earn XP or shift the practice difficulty
+  const handleMockTestComplete = (result: MockTestResult) => {
+    setUserState(prev => ({ ...prev, mockTests: [...prev.mockTests, result] }));
+  };
+
+  const handleOpenMockReport = (result: MockTestResult) => {
+    setMockReport(result);
+    setMode(AppMode.MOCK_TEST_REPORT);
+  };
+
+  const handlePlacementComplete = (level: number, startingRating: number) => {
+    setUserState(prev => ({ ...prev, level, startingRating }));
+    setMode(AppMode.DASHBOARD);
+  };
+
+  const handleReviewGrade = (cardId: string, grade: ReviewGrade) => {
+    setUserState(prev => ({
+      ...prev,
+      reviewDeck: prev.reviewDeck.map(card => card.id === cardId ? scheduleReview(card, grade) : card)
+    }));
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 flex flex-col">
       {/* Navbar */}
-      <nav className="bg-white border-b border-slate-200 sticky top-0 z-10">
+      <nav className="bg-white border-b border-slate-200 sticky top-0 z-10 print:hidden">
         <div className="max-w-6xl mx-auto px-4 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-2 cursor-pointer" onClick={() => setMode(AppMode.DASHBOARD)}>
+          {/* Inert during placement, which must finish or be skipped explicitly to set the level */}
+          <div
+            className={`flex items-center gap-2 ${placing ? '' : 'cursor-pointer'}`}
+            onClick={placing ? undefined : () => setMode(AppMode.DASHBOARD)}
+          >
             <div className="w-8 h-8 bg-brand-600 rounded-lg flex items-center justify-center text-white">
               <Zap className="w-5 h-5" fill="currentColor" />
             </div>
@@ -95,7 +304,7 @@ function App() {
 
       {/* Global Error Banner */}
       {globalError && (
-        <div className="bg-red-50 border-b border-red-200 p-4 animate-fade-in">
+        <div className="bg-red-50 border-b border-red-200 p-4 animate-fade-in print:hidden">
           <div className="max-w-6xl mx-auto flex items-center justify-between text-red-700">
             <div className="flex items-center gap-2">
               <AlertTriangle className="w-5 h-5" />
@@ -109,30 +318,141 @@ function App() {
       )}
 
       {/* Main Content */}
-      <main className="flex-1 py-8">
-        {mode === AppMode.DASHBOARD && (
+      <main className="flex-1 py-8 print:py-0">
+        {!hydrated && (
+          <div className="flex flex-col items-center justify-center h-96">
+            <div className="w-10 h-10 border-4 border-brand-200 border-t-brand-600 rounded-full animate-spin mb-4"></div>
+            <p className="text-slate-500">Loading your progress...</p>
+          </div>
+        )}
+
+        {hydrated && mode === AppMode.PLACEMENT && (
+          <PlacementView onComplete={handlePlacementComplete} onError={handleError} />
+        )}
+
+        {hydrated && mode === AppMode.DASHBOARD && (
           <Dashboard 
             userState={userState} 
-            onStartReading={() => setMode(AppMode.READING)} 
-            onStartWriting={() => setMode(AppMode.WRITING)} 
+            proficiency={proficiency}
+            onStartReading={() => handleOpenSetup('reading')} 
+            onStartWriting={() => handleOpenSetup('writing')} 
+            onStartListening={() => handleOpenSetup('listening')}
+            onQuickStart={handleQuickStart}
+            prefetchReady={prefetchReady}
+            onStartReview={() => setMode(AppMode.REVIEW)}
+            onOpenVocabulary={() => setMode(AppMode.VOCABULARY)}
+            onStartMockTest={() => setMode(AppMode.MOCK_TEST)}
+            onOpenMockReport={handleOpenMockReport}
+            onOpenHistory={handleOpenHistory}
+            onImportProgress={setUserState}
+            onPacksChange={handlePacksChange}
           />
         )}
 
-        {mode === AppMode.READING && (
+        {mode === AppMode.SETUP && (
+          <ExerciseSetupView
+            type={setupType}
+            initialTarget={getPrefetchTarget(setupType)}
+            profiles={userState.focusProfiles}
+            onStart={handleStartExercise}
+            onStartCustom={handleStartCustomReading}
+            onSaveProfile={handleSaveProfile}
+            onDeleteProfile={handleDeleteProfile}
+            onExit={() => setMode(AppMode.DASHBOARD)}
+          />
+        )}
+
+        {mode === AppMode.READING && readingSource && (
           <ReadingView 
             level={userState.level} 
-            onComplete={(score) => handleExerciseComplete(score, 'reading')}
+            params={exerciseParams ?? skillParams.reading}
+            source={readingSource}
+            onComplete={handleExerciseComplete}
             onExit={() => setMode(AppMode.DASHBOARD)}
             onError={handleError}
+            onSaveTerm={handleSaveTerm}
           />
         )}
 
-        {mode === AppMode.WRITING && (
+        {mode === AppMode.WRITING && variables && writingFormat === 'roleplay' && (
+          <RolePlayView
+            level={userState.level}
+            params={exerciseParams ?? skillParams.writing}
+            variables={variables}
+            prefetched={prefetchedScenario ?? undefined}
+            onComplete={handleExerciseComplete}
+            onExit={() => setMode(AppMode.DASHBOARD)}
+            onError={handleError}
+            onSaveTerm={handleSaveTerm}
+          />
+        )}
+
+        {mode === AppMode.WRITING && variables && writingFormat !== 'roleplay' && (
           <WritingView 
             level={userState.level} 
-            onComplete={(score) => handleExerciseComplete(score, 'writing')}
+            params={exerciseParams ?? skillParams.writing}
+            variables={variables}
+            format={writingFormat}
+            prefetched={prefetchedScenario ?? undefined}
+            onComplete={handleExerciseComplete}
             onExit={() => setMode(AppMode.DASHBOARD)}
             onError={handleError}
+            onSaveTerm={handleSaveTerm}
+          />
+        )}
+
+        {mode === AppMode.LISTENING && listeningSource && (
+          <ListeningView
+            level={userState.level}
+            params={exerciseParams ?? skillParams.listening}
+            source={listeningSource}
+            onComplete={handleExerciseComplete}
+            onExit={() => setMode(AppMode.DASHBOARD)}
+            onError={handleError}
+            onSaveTerm={handleSaveTerm}
+          />
+        )}
+
+        {mode === AppMode.REVIEW && (
+          <ReviewView 
+            deck={userState.reviewDeck}
+            onGrade={handleReviewGrade}
+            onExit={() => setMode(AppMode.DASHBOARD)}
+          />
+        )}
+
+        {mode === AppMode.VOCABULARY && (
+          <VocabularyView
+            notebook={userState.vocabulary}
+            onQuizResult={handleVocabularyQuizResult}
+            onDelete={handleDeleteVocabulary}
+            onExit={() => setMode(AppMode.DASHBOARD)}
+          />
+        )}
+
+        {mode === AppMode.MOCK_TEST && (
+          <MockTestView
+            level={userState.level}
+            history={userState.history}
+            onComplete={handleMockTestComplete}
+            onExit={() => setMode(AppMode.DASHBOARD)}
+            onError={handleError}
+          />
+        )}
+
+        {mode === AppMode.MOCK_TEST_REPORT && mockReport && (
+          <div className="max-w-4xl mx-auto p-4 md:p-6 animate-fade-in print:max-w-none print:p-0">
+            <button onClick={() => setMode(AppMode.DASHBOARD)} className="text-slate-400 hover:text-slate-600 mb-6 print:hidden">
+              <ArrowLeft className="w-6 h-6" />
+            </button>
+            <MockTestReport result={mockReport} />
+          </div>
+        )}
+
+        {mode === AppMode.REPLAY && replayEntry && (
+          <ReplayView 
+            entry={replayEntry}
+            onExit={() => setMode(AppMode.DASHBOARD)}
           />
         )}
       </main>
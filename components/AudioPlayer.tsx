@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PLAYBACK_RATES, getAccentName, loadEnglishVoices, splitSentences, speak, pauseSpeech, resumeSpeech, stopSpeech } from '../services/speech';
+import { Play, Pause, RotateCcw, Gauge, Volume2 } from 'lucide-react';
+
+interface AudioPlayerProps {
+  text: string;
+  className?: string;
+}
+
+type PlaybackStatus = 'idle' | 'playing' | 'paused';
+
+// Plays text with the browser's speech synthesis. Speed and voice changes apply from the current sentence.
+export const AudioPlayer: React.FC<AudioPlayerProps> = ({ text, className = '' }) => {
+  const sentences = useMemo(() => splitSentences(text), [text]);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [voiceURI, setVoiceURI] = useState('');
+  const [rate, setRate] = useState(1);
+  const [status, setStatus] = useState<PlaybackStatus>('idle');
+  const [position, setPosition] = useState(0); // Sentence currently (or last) playing
+
+  useEffect(() => {
+    let active = true;
+    loadEnglishVoices().then(list => {
+      if (!active) return;
+      setVoices(list);
+      setVoiceURI(prev => prev || (list.find(v => v.default) ?? list[0])?.voiceURI || '');
+    });
+    return () => {
+      active = false;
+      stopSpeech();
+    };
+  }, []);
+
+  // Voices grouped by accent for the picker
+  const byAccent = useMemo(() => {
+    const groups = new Map<string, SpeechSynthesisVoice[]>();
+    voices.forEach(v => {
+      const accent = getAccentName(v.lang);
+      groups.set(accent, [...(groups.get(accent) ?? []), v]);
+    });
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [voices]);
+
+  const play = (startAt: number, options: { rate?: number; voiceURI?: string } = {}) => {
+    setStatus('playing');
+    setPosition(startAt);
+    speak(sentences, {
+      voice: voices.find(v => v.voiceURI === (options.voiceURI ?? voiceURI)),
+      rate: options.rate ?? rate,
+      startAt
+    }, {
+      onSentence: setPosition,
+      onEnd: () => {
+        setStatus('idle');
+        setPosition(0);
+      }
+    });
+  };
+
+  const handlePlayPause = () => {
+    if (status === 'playing') {
+      pauseSpeech();
+      setStatus('paused');
+    } else if (status === 'paused') {
+      resumeSpeech();
+      setStatus('playing');
+    } else {
+      play(0);
+    }
+  };
+
+  const handleRestart = () => play(0);
+
+  const handleRateChange = (next: number) => {
+    setRate(next);
+    if (status !== 'idle') play(position, { rate: next });
+  };
+
+  const handleVoiceChange = (next: string) => {
+    setVoiceURI(next);
+    if (status !== 'idle') play(position, { voiceURI: next });
+  };
+
+  const progress = status === 'idle' ? 0 : ((position + 1) / sentences.length) * 100;
+
+  return (
+    <div className={`bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5 ${className}`}>
+      <div className="flex items-center gap-4">
+        <button
+          onClick={handlePlayPause}
+          className="w-14 h-14 shrink-0 rounded-full bg-teal-600 text-white hover:bg-teal-700 shadow-sm flex items-center justify-center transition-colors"
+          title={status === 'playing' ? 'Pause' : 'Play'}
+        >
+          {status === 'playing' ? <Pause className="w-6 h-6" /> : <Play className="w-6 h-6 ml-0.5" />}
+        </button>
+        <div className="flex-1">
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-teal-500 transition-all duration-300" style={{ width: `${progress}%` }} />
+          </div>
+          <p className="text-xs text-slate-400 mt-1">
+            {status === 'idle' ? `${sentences.length} sentences` : `Sentence ${position + 1} of ${sentences.length}`}
+          </p>
+        </div>
+        <button onClick={handleRestart} disabled={status === 'idle'} className="text-slate-400 enabled:hover:text-slate-600 disabled:opacity-40" title="Play from the start">
+          <RotateCcw className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4 text-sm">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-slate-400" />
+          {PLAYBACK_RATES.map(r => (
+            <button
+              key={r}
+              onClick={() => handleRateChange(r)}
+              className={`px-2.5 py-1 rounded-lg border text-xs font-medium transition-colors ${
+                rate === r ? 'border-teal-500 bg-teal-50 text-teal-700' : 'border-slate-200 text-slate-500 hover:border-slate-300'
+              }`}
+            >
+              {r}×
+            </button>
+          ))}
+        </div>
+        {voices.length > 0 && (
+          <label className="flex items-center gap-2 md:ml-auto">
+            <Volume2 className="w-4 h-4 text-slate-400" />
+            <select
+              value={voiceURI}
+              onChange={(e) => handleVoiceChange(e.target.value)}
+              className="px-2 py-1 rounded-lg border border-slate-200 text-xs text-slate-600 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            >
+              {byAccent.map(([accent, group]) => (
+                <optgroup key={accent} label={accent}>
+                  {group.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+                </optgroup>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
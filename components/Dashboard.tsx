@@ -1,24 +1,63 @@
 import React from 'react';
-import { UserState, DifficultyTier } from '../types';
+import { UserState, ExerciseResult, ScenarioPack, MockTestResult } from '../types';
 import { Button } from './Button';
-import { BookOpen, PenTool, Trophy, Activity } from 'lucide-react';
+import { ProgressTransferPanel } from './ProgressTransferPanel';
+import { ScenarioPacksPanel } from './ScenarioPacksPanel';
+import { StatsPanel } from './StatsPanel';
+import { BookOpen, PenTool, Headphones, Trophy, Activity, Layers, ChevronRight, BookMarked, Zap, Award } from 'lucide-react';
+import { getDueCards } from '../services/spacedRepetition';
+import { getTier } from '../services/levels';
+import { ProficiencyProfile, getVocabularyBand } from '../services/difficulty';
+import { SkillType } from '../services/analytics';
+import { MOCK_TEST_TIME_LIMIT_SECONDS, MOCK_TEST_ITEM_COUNTS } from '../services/mockTest';
 
 interface DashboardProps {
   userState: UserState;
+  proficiency: ProficiencyProfile;
   onStartReading: () => void;
   onStartWriting: () => void;
+  onStartListening: () => void;
+  onQuickStart: (type: SkillType) => void; // Skips setup and reuses the last focus
+  prefetchReady: Record<SkillType, number>;
+  onStartReview: () => void;
+  onOpenVocabulary: () => void;
+  onStartMockTest: () => void;
+  onOpenMockReport: (result: MockTestResult) => void;
+  onOpenHistory: (entry: ExerciseResult) => void;
+  onImportProgress: (state: UserState) => void;
+  onPacksChange: (packs: ScenarioPack[]) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ userState, onStartReading, onStartWriting }) => {
-  
-  const getTier = (level: number) => {
-    if (level <= 20) return DifficultyTier.BEGINNER;
-    if (level <= 40) return DifficultyTier.INTERMEDIATE;
-    return DifficultyTier.ADVANCED;
-  };
+const SKILL_DOT: Record<SkillType, string> = {
+  reading: 'bg-blue-500',
+  writing: 'bg-indigo-500',
+  listening: 'bg-teal-500'
+};
+
+const SKILL_RATINGS: { type: SkillType; label: string; color: string }[] = [
+  { type: 'reading', label: 'Reading', color: 'text-blue-600' },
+  { type: 'writing', label: 'Writing', color: 'text-indigo-600' },
+  { type: 'listening', label: 'Listening', color: 'text-teal-600' }
+];
+
+const QuickStartLink: React.FC<{ ready: number; onClick: () => void }> = ({ ready, onClick }) => (
+  <button
+    // The whole card opens setup, so keep this click from reaching it
+    onClick={(e) => { e.stopPropagation(); onClick(); }}
+    className="w-full mt-3 text-sm text-slate-500 hover:text-brand-600 flex items-center justify-center gap-1.5"
+    title="Start with the same focus as last time"
+  >
+    <Zap className={`w-4 h-4 ${ready > 0 ? 'text-amber-500' : 'text-slate-300'}`} fill={ready > 0 ? 'currentColor' : 'none'} />
+    {ready > 0 ? `Quick start · ${ready} ready` : 'Quick start with last focus'}
+  </button>
+);
 
+export const Dashboard: React.FC<DashboardProps> = ({ userState, proficiency, onStartReading, onStartWriting, onStartListening, onQuickStart, prefetchReady, onStartReview, onOpenVocabulary, onStartMockTest, onOpenMockReport, onOpenHistory, onImportProgress, onPacksChange }) => {
+  
   const tier = getTier(userState.level);
   const progressPercent = (userState.xp / userState.xpToNextLevel) * 100;
+  const dueCount = getDueCards(userState.reviewDeck).length;
+  const latestMockTest = userState.mockTests[userState.mockTests.length - 1];
 
   return (
     <div className="max-w-4xl mx-auto p-6 space-y-8 animate-fade-in">
@@ -43,12 +82,20 @@ export const Dashboard: React.FC<DashboardProps> = ({ userState, onStartReading,
                 style={{ width: `${progressPercent}%` }}
               />
             </div>
+            <div className="text-xs text-slate-500 mt-3 space-y-0.5" title="Estimated from your recent scores; exercises are generated to match">
+              {SKILL_RATINGS.map(({ type, label, color }) => (
+                <div key={type} className="flex justify-between">
+                  <span>{label} skill</span>
+                  <span><span className={`font-semibold ${color}`}>{proficiency[type].rating}</span> ({getVocabularyBand(proficiency[type].rating)})</span>
+                </div>
+              ))}
+            </div>
           </div>
         </div>
       </div>
 
       {/* Action Cards */}
-      <div className="grid md:grid-cols-2 gap-6">
+      <div className="grid md:grid-cols-3 gap-6">
         <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100 hover:shadow-md transition-shadow group cursor-pointer" onClick={onStartReading}>
           <div className="w-12 h-12 bg-blue-50 text-blue-600 rounded-xl flex items-center justify-center mb-6 group-hover:scale-110 transition-transform">
             <BookOpen className="w-6 h-6" />
@@ -56,6 +103,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ userState, onStartReading,
           <h2 className="text-xl font-bold text-slate-900 mb-2">Reading Comprehension</h2>
           <p className="text-slate-500 mb-6">Analyze technical emails, documentation, and chat logs from overseas teams.</p>
           <Button className="w-full" onClick={onStartReading}>Start Reading Exercise</Button>
+          <QuickStartLink ready={prefetchReady.reading} onClick={() => onQuickStart('reading')} />
         </div>
 
         <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100 hover:shadow-md transition-shadow group cursor-pointer" onClick={onStartWriting}>
@@ -65,9 +113,82 @@ export const Dashboard: React.FC<DashboardProps> = ({ userState, onStartReading,
           <h2 className="text-xl font-bold text-slate-900 mb-2">Technical Writing</h2>
           <p className="text-slate-500 mb-6">Draft responses to simulated scenarios. Get AI grading on tone, clarity, and grammar.</p>
           <Button variant="secondary" className="w-full" onClick={onStartWriting}>Start Writing Exercise</Button>
+          <QuickStartLink ready={prefetchReady.writing} onClick={() => onQuickStart('writing')} />
+        </div>
+
+        <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100 hover:shadow-md transition-shadow group cursor-pointer" onClick={onStartListening}>
+          <div className="w-12 h-12 bg-teal-50 text-teal-600 rounded-xl flex items-center justify-center mb-6 group-hover:scale-110 transition-transform">
+            <Headphones className="w-6 h-6" />
+          </div>
+          <h2 className="text-xl font-bold text-slate-900 mb-2">Listening Comprehension</h2>
+          <p className="text-slate-500 mb-6">Catch the details in voicemails and standup updates, with adjustable speed and accents.</p>
+          <Button variant="outline" className="w-full" onClick={onStartListening}>Start Listening Exercise</Button>
+          <QuickStartLink ready={prefetchReady.listening} onClick={() => onQuickStart('listening')} />
+        </div>
+      </div>
+
+      {/* Review Deck */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-amber-50 text-amber-600 rounded-xl flex items-center justify-center">
+            <Layers className="w-6 h-6" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">Review Deck</h2>
+            <p className="text-slate-500 text-sm">
+              {userState.reviewDeck.length === 0
+                ? 'Missed questions and grammar corrections will appear here for spaced review.'
+                : `${dueCount} of ${userState.reviewDeck.length} cards due for review.`}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={onStartReview} disabled={userState.reviewDeck.length === 0}>
+          {dueCount > 0 ? `Review ${dueCount} Cards` : 'Open Deck'}
+        </Button>
+      </div>
+
+      {/* Vocabulary Notebook */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-green-50 text-green-600 rounded-xl flex items-center justify-center">
+            <BookMarked className="w-6 h-6" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">Vocabulary Notebook</h2>
+            <p className="text-slate-500 text-sm">
+              {userState.vocabulary.length === 0
+                ? 'Select any word in an exercise to look it up and save it here.'
+                : `${userState.vocabulary.length} saved term${userState.vocabulary.length > 1 ? 's' : ''}.`}
+            </p>
+          </div>
         </div>
+        <Button variant="outline" onClick={onOpenVocabulary}>Open Notebook</Button>
       </div>
 
+      {/* Mock Skill Test */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-purple-50 text-purple-600 rounded-xl flex items-center justify-center">
+            <Award className="w-6 h-6" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">Mock Skill Test</h2>
+            <p className="text-slate-500 text-sm">
+              {MOCK_TEST_TIME_LIMIT_SECONDS / 60} min · {MOCK_TEST_ITEM_COUNTS.reading} reading + {MOCK_TEST_ITEM_COUNTS.writing} writing items, with a printable band report.
+            </p>
+            {latestMockTest && (
+              <button onClick={() => onOpenMockReport(latestMockTest)} className="text-sm text-brand-600 hover:underline mt-1">
+                Last result ({new Date(latestMockTest.date).toLocaleDateString()}): Reading {latestMockTest.skills.reading.band} · Writing {latestMockTest.skills.writing.band}
+              </button>
+            )}
+          </div>
+        </div>
+        <Button variant="outline" onClick={onStartMockTest}>Start Test</Button>
+      </div>
+
+      {/* Stats */}
+      {userState.history.length > 0 && <StatsPanel history={userState.history} />}
+
       {/* Recent History */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
         <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
@@ -79,20 +200,34 @@ export const Dashboard: React.FC<DashboardProps> = ({ userState, onStartReading,
         ) : (
           <div className="space-y-3">
             {userState.history.slice().reverse().slice(0, 5).map((entry) => (
-              <div key={entry.id} className="flex justify-between items-center p-3 rounded-lg bg-slate-50 border border-slate-100">
+              <button
+                key={entry.id}
+                onClick={() => onOpenHistory(entry)}
+                disabled={!entry.transcript}
+                title={entry.transcript ? 'Open replay' : 'No transcript was recorded for this exercise'}
+                className="w-full flex justify-between items-center p-3 rounded-lg bg-slate-50 border border-slate-100 text-left enabled:hover:border-brand-500 enabled:hover:bg-white transition-colors"
+              >
                 <div className="flex items-center gap-3">
-                  <div className={`w-2 h-2 rounded-full ${entry.type === 'reading' ? 'bg-blue-500' : 'bg-indigo-500'}`} />
+                  <div className={`w-2 h-2 rounded-full ${SKILL_DOT[entry.type]}`} />
                   <span className="font-medium text-slate-700 capitalize">{entry.type}</span>
                   <span className="text-xs text-slate-400">Level {entry.level}</span>
+                  <span className="text-xs text-slate-400 hidden md:inline">{new Date(entry.date).toLocaleDateString()}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`font-bold ${entry.score >= 80 ? 'text-green-600' : 'text-slate-600'}`}>
+                    {entry.score}/100
+                  </span>
+                  {entry.transcript && <ChevronRight className="w-4 h-4 text-slate-400" />}
                 </div>
-                <span className={`font-bold ${entry.score >= 80 ? 'text-green-600' : 'text-slate-600'}`}>
-                  {entry.score}/100
-                </span>
-              </div>
+              </button>
             ))}
           </div>
         )}
       </div>
+
+      <ScenarioPacksPanel packs={userState.scenarioPacks} onChange={onPacksChange} />
+
+      <ProgressTransferPanel userState={userState} onImport={onImportProgress} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,51 @@
+import React from 'react';
+import { GrammarMistake } from '../types';
+import { diffWords } from '../services/textDiff';
+
+interface DraftDiffProps {
+  draft: string;
+  improved: string;
+  grammarMistakes: GrammarMistake[];
+}
+
+// Superscript badge pointing at the numbered entry in "Key Corrections"
+const MistakeBadge: React.FC<{ index: number; mistake: GrammarMistake }> = ({ index, mistake }) => (
+  <sup
+    title={mistake.explanation}
+    className="ml-0.5 px-1 rounded bg-amber-100 text-amber-700 text-[10px] font-bold cursor-help"
+  >
+    {index + 1}
+  </sup>
+);
+
+export const DraftDiff: React.FC<DraftDiffProps> = ({ draft, improved, grammarMistakes }) => {
+  const segments = diffWords(draft, improved, grammarMistakes);
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-slate-200 text-sm leading-7 whitespace-pre-wrap">
+      {segments.map((seg, i) => {
+        const separator = i < segments.length - 1 ? ' ' : '';
+        const badge = seg.mistakeIndex !== undefined && (
+          <MistakeBadge index={seg.mistakeIndex} mistake={grammarMistakes[seg.mistakeIndex]} />
+        );
+
+        if (seg.type === 'equal') {
+          return <span key={i} className="text-slate-700">{seg.before}{separator}</span>;
+        }
+        return (
+          <span key={i}>
+            {seg.before && (
+              <del className="bg-red-50 text-red-600 decoration-red-400 rounded px-0.5">{seg.before}</del>
+            )}
+            {seg.before && seg.after && ' '}
+            {seg.after && (
+              <ins className="bg-green-50 text-green-700 no-underline font-medium rounded px-0.5">{seg.after}</ins>
+            )}
+            {badge}
+            {separator}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
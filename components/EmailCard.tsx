@@ -0,0 +1,29 @@
+import React from 'react';
+import { ReadingExercise, TermDefinition } from '../types';
+import { SelectableText } from './SelectableText';
+import { Mail } from 'lucide-react';
+
+interface EmailCardProps {
+  exercise: Pick<ReadingExercise, 'subject' | 'sender' | 'body'>;
+  className?: string;
+  onSaveTerm?: (definition: TermDefinition, context: string) => void;
+}
+
+export const EmailCard: React.FC<EmailCardProps> = ({ exercise, className = '', onSaveTerm }) => {
+  return (
+    <div className={`bg-white rounded-xl shadow-sm border border-slate-200 ${className}`}>
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 rounded-t-xl flex items-center gap-3">
+        <Mail className="w-5 h-5 text-slate-400" />
+        <div className="flex-1">
+          <h3 className="font-semibold text-slate-800">{exercise.subject}</h3>
+          <p className="text-sm text-slate-500">From: {exercise.sender}</p>
+        </div>
+      </div>
+      <SelectableText
+        text={exercise.body}
+        onSaveTerm={onSaveTerm}
+        className="p-6 md:p-8 font-mono text-sm md:text-base leading-relaxed text-slate-700 whitespace-pre-wrap"
+      />
+    </div>
+  );
+};
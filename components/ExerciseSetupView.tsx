@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { ExerciseFocus, FocusProfile, FocusSelection, CustomReadingText, ExerciseFormat } from '../types';
+import { SkillType } from '../services/analytics';
+import { PrefetchTarget } from '../services/prefetchQueue';
+import { getTopicKey, getTopicPool, getTonePool, getEligibleTopics, getEligibleTones, withCodeReviewFocus } from '../services/scenarioPicker';
+import { Button } from './Button';
+import { ArrowLeft, Bookmark, Play, Trash2, Shuffle, ClipboardPaste } from 'lucide-react';
+
+interface ExerciseSetupViewProps {
+  type: SkillType;
+  initialTarget: PrefetchTarget; // Last focus and format, which the prefetch queue has exercises ready for
+  profiles: FocusProfile[];
+  onStart: (focus: ExerciseFocus, format: ExerciseFormat) => void;
+  onStartCustom: (text: CustomReadingText) => void;
+  onSaveProfile: (profile: FocusProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onExit: () => void;
+}
+
+type ChipState = 'neutral' | 'include' | 'exclude';
+
+type SetupTab = ExerciseFormat | 'custom';
+
+const TABS: Record<SkillType, { id: SetupTab; label: string }[]> = {
+  reading: [
+    { id: 'email', label: 'Email' },
+    { id: 'thread', label: 'Slack Thread' },
+    { id: 'custom', label: 'Your Own Text' }
+  ],
+  writing: [
+    { id: 'message', label: 'Message' },
+    { id: 'review', label: 'Code Review' },
+    { id: 'spoken', label: 'Speaking' },
+    { id: 'roleplay', label: 'Role-Play' }
+  ],
+  listening: [
+    { id: 'voicemail', label: 'Voicemail' },
+    { id: 'meeting', label: 'Standup / Call' }
+  ]
+};
+
+// Bounds for pasted text: long enough to ask about, short enough for one prompt
+const MIN_CUSTOM_TEXT_LENGTH = 40;
+const MAX_CUSTOM_TEXT_LENGTH = 6000;
+
+const getChipState = (selection: FocusSelection, item: string): ChipState =>
+  selection.include.includes(item) ? 'include' : selection.exclude.includes(item) ? 'exclude' : 'neutral';
+
+// Clicking a chip cycles neutral -> include -> exclude -> neutral
+const cycleChip = (selection: FocusSelection, item: string): FocusSelection => {
+  const include = selection.include.filter(i => i !== item);
+  const exclude = selection.exclude.filter(i => i !== item);
+  const state = getChipState(selection, item);
+  if (state === 'neutral') return { include: [...include, item], exclude };
+  if (state === 'include') return { include, exclude: [...exclude, item] };
+  return { include, exclude };
+};
+
+const CHIP_STYLES: Record<ChipState, string> = {
+  neutral: 'border-slate-200 text-slate-600 bg-white hover:border-slate-300',
+  include: 'border-brand-500 text-brand-700 bg-brand-50',
+  exclude: 'border-red-200 text-red-400 bg-red-50 line-through'
+};
+
+const ChipGroup: React.FC<{
+  title: string;
+  items: string[];
+  selection: FocusSelection;
+  onChange: (selection: FocusSelection) => void;
+}> = ({ title, items, selection, onChange }) => (
+  <div>
+    <div className="flex justify-between items-center mb-3">
+      <h3 className="text-sm font-semibold text-slate-700">{title}</h3>
+      {(selection.include.length > 0 || selection.exclude.length > 0) && (
+        <button onClick={() => onChange({ include: [], exclude: [] })} className="text-xs text-slate-400 hover:text-slate-600">
+          Clear
+        </button>
+      )}
+    </div>
+    <div className="flex flex-wrap gap-2">
+      {items.map(item => (
+        <button
+          key={item}
+          onClick={() => onChange(cycleChip(selection, item))}
+          className={`px-3 py-1.5 rounded-full border text-xs transition-colors ${CHIP_STYLES[getChipState(selection, item)]}`}
+        >
+          {item}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const CustomTextForm: React.FC<{ onStart: (text: CustomReadingText) => void }> = ({ onStart }) => {
+  const [body, setBody] = useState('');
+  const [sender, setSender] = useState('');
+  const [subject, setSubject] = useState('');
+  const length = body.trim().length;
+  const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-brand-500 focus:border-transparent";
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-4">
+      <p className="text-sm text-slate-500">
+        Paste a real email, PR description, RFC or chat message. You'll get comprehension questions, a vocabulary list and a plain-English paraphrase.
+      </p>
+      <div className="grid md:grid-cols-2 gap-4">
+        <input value={sender} onChange={(e) => setSender(e.target.value)} placeholder="Sender (optional)" className={inputClass} />
+        <input value={subject} onChange={(e) => setSubject(e.target.value)} placeholder="Subject (optional)" className={inputClass} />
+      </div>
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Paste the English text here..."
+        maxLength={MAX_CUSTOM_TEXT_LENGTH}
+        className={`${inputClass} h-64 font-mono resize-none`}
+      />
+      <div className="flex justify-between items-center">
+        <span className={`text-xs ${length > 0 && length < MIN_CUSTOM_TEXT_LENGTH ? 'text-red-500' : 'text-slate-400'}`}>
+          {length} / {MAX_CUSTOM_TEXT_LENGTH} characters
+        </span>
+        <Button
+          onClick={() => onStart({ body: body.trim(), sender: sender.trim() || undefined, subject: subject.trim() || undefined })}
+          disabled={length < MIN_CUSTOM_TEXT_LENGTH}
+          className="px-8"
+        >
+          <ClipboardPaste className="w-4 h-4" />
+          Create Exercise
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const ExerciseSetupView: React.FC<ExerciseSetupViewProps> = ({ type, initialTarget, profiles, onStart, onStartCustom, onSaveProfile, onDeleteProfile, onExit }) => {
+  const [focus, setFocus] = useState<ExerciseFocus>(initialTarget.focus);
+  const [profileName, setProfileName] = useState('');
+  const [tab, setTab] = useState<SetupTab>(
+    TABS[type].some(t => t.id === initialTarget.format) ? initialTarget.format : TABS[type][0].id
+  );
+  const isReview = tab === 'review';
+
+  const topicKey = getTopicKey(type);
+  const topicCount = getEligibleTopics(type, isReview ? withCodeReviewFocus(focus) : focus).length;
+  const toneCount = getEligibleTones(focus).length;
+
+  const handleSave = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    // Saving under an existing name overwrites that profile
+    const existing = profiles.find(p => p.name === name);
+    onSaveProfile({ id: existing?.id ?? Date.now().toString(), name, focus });
+    setProfileName('');
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 md:p-6 animate-fade-in pb-24">
+      <div className="flex items-center gap-4 mb-2">
+        <button onClick={onExit} className="text-slate-400 hover:text-slate-600">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-2xl font-bold text-slate-800 capitalize">{type} Setup</h2>
+      </div>
+
+      <div className="flex gap-2 mb-4 ml-10">
+        {TABS[type].map(option => (
+          <button
+            key={option.id}
+            onClick={() => setTab(option.id)}
+            className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              tab === option.id ? 'bg-brand-600 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:border-slate-300'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'custom' ? (
+        <CustomTextForm onStart={onStartCustom} />
+      ) : (
+        <>
+          <p className="text-sm text-slate-500 mb-6 ml-10">
+            Click once to focus on an item, twice to exclude it. Leave everything unselected for a fully random exercise.
+          </p>
+
+          {/* Focus Profiles */}
+          <div className="bg-white rounded-xl border border-slate-200 p-4 mb-6">
+            <h3 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
+              <Bookmark className="w-4 h-4 text-slate-400" />
+              Focus Profiles
+            </h3>
+            {profiles.length === 0 ? (
+              <p className="text-slate-400 text-sm italic mb-3">No saved profiles yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {profiles.map(profile => (
+                  <span key={profile.id} className="flex items-center rounded-lg border border-slate-200 bg-slate-50 text-sm">
+                    <button onClick={() => setFocus(profile.focus)} className="px-3 py-1.5 text-slate-700 hover:text-brand-600">
+                      {profile.name}
+                    </button>
+                    <button onClick={() => onDeleteProfile(profile.id)} className="px-2 py-1.5 text-slate-300 hover:text-red-500" title="Delete profile">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <input
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="e.g. Kubernetes incident review"
+                className="flex-1 px-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              />
+              <Button variant="outline" onClick={handleSave} disabled={!profileName.trim()}>
+                Save Current
+              </Button>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl border border-slate-200 p-6 space-y-8">
+            {/* Code review always uses the peer code feedback situation */}
+            {!isReview && (
+              <ChipGroup
+                title={topicKey === 'topics' ? 'Topics' : 'Situations'}
+                items={getTopicPool(type)}
+                selection={focus[topicKey]}
+                onChange={selection => setFocus(prev => ({ ...prev, [topicKey]: selection }))}
+              />
+            )}
+            <ChipGroup
+              title="Tones"
+              items={getTonePool()}
+              selection={focus.tones}
+              onChange={selection => setFocus(prev => ({ ...prev, tones: selection }))}
+            />
+          </div>
+
+          <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-slate-200 shadow-lg flex justify-center">
+            <div className="w-full max-w-4xl flex justify-between items-center gap-3">
+              <span className="text-sm text-slate-500 flex items-center gap-2">
+                <Shuffle className="w-4 h-4" />
+                {topicCount} {topicKey === 'topics' ? 'topic' : 'situation'}{topicCount === 1 ? '' : 's'} × {toneCount} tone{toneCount === 1 ? '' : 's'}
+              </span>
+              <Button onClick={() => onStart(focus, tab)} disabled={topicCount === 0 || toneCount === 0} className="px-8">
+                <Play className="w-4 h-4" />
+                Start Exercise
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
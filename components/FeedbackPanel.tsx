@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { WritingFeedback, WritingRubric, SpokenIssue, SpokenIssueKind } from '../types';
+import { RUBRIC_DIMENSIONS, getSubScores } from '../services/rubric';
+import { DraftDiff } from './DraftDiff';
+import { CheckCircle2, AlertCircle, Circle, CircleDot, Mic } from 'lucide-react';
+
+interface FeedbackPanelProps {
+  feedback: WritingFeedback;
+  userDraft?: string; // Enables the inline diff against the improved version
+  actions?: React.ReactNode; // Footer buttons; omitted for read-only display
+}
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'bg-green-500' : score >= 50 ? 'bg-yellow-400' : 'bg-red-400';
+
+// In code review grading the key points are the issues planted in the diff.
+const RubricBreakdown: React.FC<{ rubric: WritingRubric; review: boolean }> = ({ rubric, review }) => {
+  const subScores = getSubScores(rubric);
+  const dimensionDetails = {
+    tone: rubric.tone,
+    grammar: rubric.grammar,
+    clarity: rubric.clarity,
+    conciseness: rubric.conciseness
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <div>
+        <h4 className="font-semibold text-slate-900 mb-3">Score Breakdown</h4>
+        <div className="space-y-3">
+          {RUBRIC_DIMENSIONS.map(({ key, label, weight }) => (
+            <div key={key}>
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span>{review && key === 'keyPoints' ? 'Issues Found' : label} <span className="text-slate-300">({Math.round(weight * 100)}%)</span></span>
+                <span className="font-medium text-slate-700">{subScores[key]}</span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className={`h-full ${scoreColor(subScores[key])}`} style={{ width: `${subScores[key]}%` }} />
+              </div>
+              {key !== 'keyPoints' && (
+                <p className="text-xs text-slate-500 mt-1">{dimensionDetails[key].justification}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div>
+        <h4 className="font-semibold text-slate-900 mb-3">{review ? 'Planted Issues' : 'Key Point Coverage'}</h4>
+        <ul className="space-y-3">
+          {rubric.keyPoints.map((kp, i) => (
+            <li key={i} className="flex gap-2 text-sm">
+              {kp.score >= 80
+                ? <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0 mt-0.5" />
+                : kp.score >= 40
+                  ? <CircleDot className="w-4 h-4 text-yellow-500 shrink-0 mt-0.5" />
+                  : <Circle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />}
+              <div>
+                <p className="text-slate-700">{kp.keyPoint} <span className="text-xs text-slate-400">({kp.score})</span></p>
+                <p className="text-xs text-slate-500">{kp.justification}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+const SPOKEN_ISSUE_LABELS: Record<SpokenIssueKind, string> = {
+  filler: 'Filler',
+  longSentence: 'Long Sentence',
+  structure: 'Structure'
+};
+
+const SpokenIssueList: React.FC<{ issues: SpokenIssue[] }> = ({ issues }) => (
+  <div>
+    <h4 className="font-semibold text-slate-900 mb-2 flex items-center gap-2">
+      <Mic className="w-5 h-5 text-indigo-600" />
+      Delivery
+    </h4>
+    {issues.length > 0 ? (
+      <ul className="text-sm text-slate-600 space-y-3">
+        {issues.map((issue, i) => (
+          <li key={i}>
+            <p>
+              <span className="mr-2 px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 text-[10px] font-bold align-middle">{SPOKEN_ISSUE_LABELS[issue.kind]}</span>
+              <span className="italic">"{issue.excerpt}"</span>
+            </p>
+            <p className="text-xs text-slate-500 mt-1">{issue.suggestion}</p>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-sm text-green-600">Clear delivery! No fillers or run-on sentences found.</p>
+    )}
+  </div>
+);
+
+export const FeedbackPanel: React.FC<FeedbackPanelProps> = ({ feedback, userDraft, actions }) => {
+  const [showDiff, setShowDiff] = useState(true);
+  const review = !!feedback.commentFeedback;
+  const spoken = !!feedback.spokenIssues;
+  const rolePlay = !!feedback.turnNotes;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden mb-8 animate-fade-in-up">
+      <div className="bg-slate-900 text-white px-6 py-4 flex justify-between items-center">
+        <h3 className="font-bold text-lg">AI Analysis</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-slate-400 text-sm">Score:</span>
+          <span className={`text-xl font-bold ${feedback.score >= 80 ? 'text-green-400' : 'text-yellow-400'}`}>{feedback.score}/100</span>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {feedback.rubric && <RubricBreakdown rubric={feedback.rubric} review={review} />}
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="font-semibold text-slate-900 flex items-center gap-2">
+              <CheckCircle2 className="w-5 h-5 text-indigo-600" />
+              {review ? 'Model Review' : spoken ? 'How a Native Engineer Would Say It' : rolePlay ? 'Native Engineer Messages' : 'Native Engineer Version'}
+            </h4>
+            {userDraft && (
+              <div className="flex text-xs rounded-lg border border-slate-200 overflow-hidden">
+                <button
+                  onClick={() => setShowDiff(true)}
+                  className={`px-3 py-1 ${showDiff ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+                >
+                  Changes
+                </button>
+                <button
+                  onClick={() => setShowDiff(false)}
+                  className={`px-3 py-1 ${!showDiff ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 hover:bg-slate-50'}`}
+                >
+                  Clean
+                </button>
+              </div>
+            )}
+          </div>
+          {userDraft && showDiff ? (
+            <DraftDiff draft={userDraft} improved={feedback.improvedVersion} grammarMistakes={feedback.grammarMistakes} />
+          ) : (
+            <div className="bg-indigo-50 p-4 rounded-lg text-indigo-900 text-sm font-medium border border-indigo-100 whitespace-pre-wrap">
+              {feedback.improvedVersion}
+            </div>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="font-semibold text-slate-900 mb-2">Critique</h4>
+            <p className="text-sm text-slate-600 leading-relaxed">{feedback.critique}</p>
+          </div>
+          <div>
+            <h4 className="font-semibold text-slate-900 mb-2 flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-amber-500" />
+              Key Corrections
+            </h4>
+            {feedback.grammarMistakes.length > 0 ? (
+              <ul className="text-sm text-slate-600 space-y-3">
+                {feedback.grammarMistakes.map((mistake, i) => (
+                  <li key={i}>
+                    <p>
+                      <span className="mr-2 px-1 rounded bg-amber-100 text-amber-700 text-[10px] font-bold align-middle">{i + 1}</span>
+                      <span className="line-through text-red-500">{mistake.original}</span>
+                      <span className="text-slate-400 mx-2">→</span>
+                      <span className="font-medium text-green-700">{mistake.corrected}</span>
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">{mistake.explanation}</p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-green-600">Great job! No major grammar errors found.</p>
+            )}
+          </div>
+        </div>
+
+        {feedback.spokenIssues && <SpokenIssueList issues={feedback.spokenIssues} />}
+      </div>
+      {actions && (
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+          {actions}
+        </div>
+      )}
+    </div>
+  );
+};
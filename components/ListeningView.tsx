@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { generateListeningExercise } from '../services/geminiService';
+import { isSpeechSynthesisSupported } from '../services/speech';
+import { ReadingExercise, ListeningTranscript, GenerationParams, ListeningSource, TermDefinition } from '../types';
+import { Button } from './Button';
+import { AudioPlayer } from './AudioPlayer';
+import { SpokenMessageCard } from './SpokenMessageCard';
+import { QuestionCard } from './QuestionCard';
+import { ArrowLeft, AlertTriangle } from 'lucide-react';
+
+interface ListeningViewProps {
+  level: number;
+  params: GenerationParams;
+  source: ListeningSource;
+  onComplete: (score: number, transcript: ListeningTranscript) => void;
+  onExit: () => void;
+  onError: (message: string, error?: unknown) => void;
+  onSaveTerm: (definition: TermDefinition, context: string) => void;
+}
+
+export const ListeningView: React.FC<ListeningViewProps> = ({ level, params, source, onComplete, onExit, onError, onSaveTerm }) => {
+  const [loading, setLoading] = useState(!source.exercise);
+  const [exercise, setExercise] = useState<ReadingExercise | null>(source.exercise ?? null);
+  const [answers, setAnswers] = useState<number[]>(() => new Array(source.exercise?.questions.length ?? 0).fill(-1));
+  const [submitted, setSubmitted] = useState(false);
+  const [score, setScore] = useState(0);
+  // Without speech synthesis the learner can fall back to reading the transcript
+  const [speechSupported] = useState(isSpeechSynthesisSupported);
+  const [transcriptRevealed, setTranscriptRevealed] = useState(false);
+
+  useEffect(() => {
+    if (source.exercise) return;
+    const controller = new AbortController();
+    generateListeningExercise(params, source.variables, source.format, controller.signal)
+      .then(data => {
+        if (controller.signal.aborted) return;
+        setExercise(data);
+        setAnswers(new Array(data.questions.length).fill(-1));
+        setLoading(false);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        setLoading(false);
+        onError("Could not generate listening task.", err);
+      });
+    return () => controller.abort();
+  }, [params, source, onError]);
+
+  const handleSelect = (qIndex: number, optIndex: number) => {
+    if (submitted) return;
+    const newAnswers = [...answers];
+    newAnswers[qIndex] = optIndex;
+    setAnswers(newAnswers);
+  };
+
+  const handleSubmit = () => {
+    if (!exercise) return;
+    const correctCount = exercise.questions.filter((q, i) => answers[i] === q.correctIndex).length;
+    setScore(Math.round((correctCount / exercise.questions.length) * 100));
+    setSubmitted(true);
+  };
+
+  // Unlike reading there is no auto-advance: the transcript only appears now and needs time to read.
+  const handleFinish = () => {
+    if (exercise) onComplete(score, { type: 'listening', exercise, answers });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <div className="w-10 h-10 border-4 border-teal-200 border-t-teal-600 rounded-full animate-spin mb-4"></div>
+        <p className="text-slate-500">Recording a Level {level} {source.format === 'meeting' ? 'meeting update' : 'voicemail'}...</p>
+      </div>
+    );
+  }
+
+  if (!exercise) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-slate-500">
+        <p>Failed to load content.</p>
+        <Button onClick={onExit} variant="outline" className="mt-4">Return to Dashboard</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 md:p-6 animate-fade-in pb-20">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={onExit} className="text-slate-400 hover:text-slate-600">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-2xl font-bold text-slate-800">Listening Task</h2>
+      </div>
+
+      {speechSupported ? (
+        <AudioPlayer text={exercise.body} className="mb-6" />
+      ) : (
+        <div className="mb-6 p-4 rounded-xl border border-amber-200 bg-amber-50 text-sm text-amber-800 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 shrink-0" />
+          <div className="flex-1">
+            <p>This browser cannot play synthesized speech. You can still answer the questions from the transcript.</p>
+            {!transcriptRevealed && (
+              <button onClick={() => setTranscriptRevealed(true)} className="mt-2 font-medium underline">Show transcript</button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <SpokenMessageCard
+        exercise={exercise}
+        showTranscript={submitted || transcriptRevealed}
+        className="mb-8"
+        onSaveTerm={onSaveTerm}
+      />
+
+      {/* Questions */}
+      <div className="space-y-6">
+        {exercise.questions.map((q, qIndex) => (
+          <QuestionCard
+            key={qIndex}
+            question={q}
+            index={qIndex}
+            selected={answers[qIndex]}
+            submitted={submitted}
+            onSelect={(optIndex) => handleSelect(qIndex, optIndex)}
+          />
+        ))}
+      </div>
+
+      <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-slate-200 shadow-lg flex justify-center">
+        <div className="w-full max-w-3xl flex items-center justify-between gap-4">
+          {submitted && <span className="font-bold text-slate-700">{score}/100</span>}
+          {submitted ? (
+            <Button onClick={handleFinish} className="w-full md:w-auto md:px-12 ml-auto">Complete Exercise</Button>
+          ) : (
+            <Button
+              onClick={handleSubmit}
+              className="w-full md:w-auto md:px-12"
+              disabled={answers.includes(-1)}
+            >
+              Submit Answers
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React from 'react';
+import { MockTestResult, MockTestSkill, VocabularyBand, RubricDimension } from '../types';
+import { RUBRIC_DIMENSIONS } from '../services/rubric';
+import { getVocabularyBand } from '../services/difficulty';
+import { formatDuration } from '../services/mockTest';
+import { Button } from './Button';
+import { BookOpen, PenTool, Printer, Award } from 'lucide-react';
+
+interface MockTestReportProps {
+  result: MockTestResult;
+  actions?: React.ReactNode; // Extra buttons next to Print; hidden on paper
+}
+
+// Short can-do statements for work communication at each band
+const BAND_DESCRIPTORS: Record<VocabularyBand, string> = {
+  A2: 'Can handle short, routine messages on familiar tasks when they are written simply.',
+  B1: 'Can follow and write straightforward technical messages on familiar topics within the team.',
+  B2: 'Can work independently with overseas colleagues on technical topics, with clear and appropriately polite writing.',
+  C1: 'Can handle complex discussions and negotiations fluently, adjusting tone to stakeholders at any level.',
+  C2: 'Can communicate with the precision and nuance of a senior native-speaking engineer or manager.'
+};
+
+const SKILLS: { key: MockTestSkill; label: string; icon: React.ElementType; color: string }[] = [
+  { key: 'reading', label: 'Reading', icon: BookOpen, color: 'text-blue-600' },
+  { key: 'writing', label: 'Writing', icon: PenTool, color: 'text-indigo-600' }
+];
+
+// Mean writing sub-score per rubric dimension across the graded drafts
+const averageSubScores = (result: MockTestResult): Partial<Record<RubricDimension, number>> => {
+  const graded = result.items.filter(item => item.subScores).map(item => item.subScores!);
+  if (graded.length === 0) return {};
+  return Object.fromEntries(RUBRIC_DIMENSIONS.map(({ key }) =>
+    [key, Math.round(graded.reduce((sum, s) => sum + s[key], 0) / graded.length)]));
+};
+
+// Certification-style summary of a mock test, laid out to print on a single page.
+export const MockTestReport: React.FC<MockTestReportProps> = ({ result, actions }) => {
+  const subScores = averageSubScores(result);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 print:shadow-none print:border-0 print:p-0">
+      <div className="flex justify-between items-start border-b border-slate-200 pb-6 mb-6">
+        <div>
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">TechComm AI</p>
+          <h1 className="text-2xl font-bold text-slate-900">English Skill Assessment Report</h1>
+          <p className="text-sm text-slate-500 mt-1">
+            {new Date(result.date).toLocaleString()} <span className="text-slate-300">|</span> Level {result.level}
+          </p>
+        </div>
+        <Award className="w-10 h-10 text-brand-600" />
+      </div>
+
+      {/* Band per skill */}
+      <div className="grid md:grid-cols-2 print:grid-cols-2 gap-6 mb-8">
+        {SKILLS.map(({ key, label, icon: Icon, color }) => {
+          const skill = result.skills[key];
+          return (
+            <div key={key} className="border border-slate-200 rounded-xl p-5">
+              <div className="flex items-center gap-2 text-sm font-semibold text-slate-700 mb-3">
+                <Icon className={`w-4 h-4 ${color}`} />
+                {label}
+              </div>
+              <div className="flex items-end gap-3 mb-3">
+                <span className={`text-5xl font-bold ${color}`}>{skill.band}</span>
+                <span className="text-sm text-slate-500 mb-1">CEFR-style band · rating {skill.rating} · average {skill.score}/100</span>
+              </div>
+              <p className="text-sm text-slate-600">{BAND_DESCRIPTORS[skill.band]}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Items */}
+      <h2 className="font-semibold text-slate-900 mb-3">Item Results</h2>
+      <table className="w-full text-sm mb-8">
+        <thead>
+          <tr className="text-left text-xs text-slate-400 uppercase border-b border-slate-200">
+            <th className="py-2 font-medium">#</th>
+            <th className="py-2 font-medium">Skill</th>
+            <th className="py-2 font-medium">Item</th>
+            <th className="py-2 font-medium">Level</th>
+            <th className="py-2 font-medium text-right">Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.items.map((item, i) => (
+            <tr key={i} className="border-b border-slate-100">
+              <td className="py-2 text-slate-400">{i + 1}</td>
+              <td className="py-2 capitalize text-slate-600">{item.skill}</td>
+              <td className="py-2 text-slate-700">{item.title}</td>
+              <td className="py-2 text-slate-500">{getVocabularyBand(item.difficulty)}</td>
+              <td className="py-2 text-right font-semibold text-slate-800">{item.score}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {Object.keys(subScores).length > 0 && (
+        <>
+          <h2 className="font-semibold text-slate-900 mb-3">Writing Profile</h2>
+          <div className="grid grid-cols-2 md:grid-cols-5 print:grid-cols-5 gap-3 mb-8">
+            {RUBRIC_DIMENSIONS.map(({ key, label }) => (
+              <div key={key} className="bg-slate-50 rounded-lg p-3 text-center">
+                <p className="text-xs text-slate-500">{label}</p>
+                <p className="text-lg font-bold text-slate-800">{subScores[key]}</p>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="text-xs text-slate-500 space-y-1 border-t border-slate-200 pt-4">
+        <p>
+          Time used: {formatDuration(result.durationSeconds)} of {formatDuration(result.timeLimitSeconds)}
+          {result.timedOut && ' (time ran out; unanswered items scored 0)'}
+        </p>
+        <p>
+          Bands are estimated from {result.items.length} timed items at mixed difficulty and are indicative only; this is not an official CEFR certificate.
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-3 mt-6 print:hidden">
+        {actions}
+        <Button variant="outline" onClick={() => window.print()}>
+          <Printer className="w-4 h-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ExerciseResult, MockTestResult } from '../types';
+import { MOCK_TEST_TIME_LIMIT_SECONDS, MOCK_TEST_ITEM_COUNTS, MockTestItem, ScoredMockTestItem, prepareMockTest, isItemAnswered, scoreMockTest, buildMockTestResult, formatDuration } from '../services/mockTest';
+import { Button } from './Button';
+import { EmailCard } from './EmailCard';
+import { QuestionCard } from './QuestionCard';
+import { ScenarioCard } from './ScenarioCard';
+import { FeedbackPanel } from './FeedbackPanel';
+import { MockTestReport } from './MockTestReport';
+import { ArrowLeft, ChevronLeft, ChevronRight, Clock, Flag, BookOpen, PenTool } from 'lucide-react';
+
+interface MockTestViewProps {
+  level: number;
+  history: ExerciseResult[];
+  onComplete: (result: MockTestResult) => void; // Called once scored, before the report is shown
+  onExit: () => void;
+  onError: (message: string, error?: unknown) => void;
+}
+
+// 'expired': time ran out and grading failed; answers are locked and only grading can be retried
+type Phase = 'intro' | 'preparing' | 'running' | 'scoring' | 'expired' | 'done';
+
+// Turns red when this much time is left
+const TIME_WARNING_SECONDS = 5 * 60;
+
+// Timed test with no feedback until the end, then a report and the answers to review.
+export const MockTestView: React.FC<MockTestViewProps> = ({ level, history, onComplete, onExit, onError }) => {
+  const [phase, setPhase] = useState<Phase>('intro');
+  const [prepared, setPrepared] = useState(0);
+  const [items, setItems] = useState<MockTestItem[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [startedAt, setStartedAt] = useState(0);
+  const [now, setNow] = useState(0);
+  const [scored, setScored] = useState<ScoredMockTestItem[]>([]);
+  const [result, setResult] = useState<MockTestResult | null>(null);
+  // Aborts generation or grading when the learner leaves the view
+  const pending = useRef<AbortController | null>(null);
+  const expired = useRef(false);
+
+  useEffect(() => () => pending.current?.abort(), []);
+
+  const remaining = MOCK_TEST_TIME_LIMIT_SECONDS - Math.floor((now - startedAt) / 1000);
+
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  const handlePrepare = async () => {
+    const controller = new AbortController();
+    pending.current = controller;
+    setPhase('preparing');
+    setPrepared(0);
+
+    try {
+      const test = await prepareMockTest(history, (ready) => setPrepared(ready), controller.signal);
+      const start = Date.now();
+      setItems(test);
+      setCurrent(0);
+      setStartedAt(start);
+      setNow(start);
+      setPhase('running');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      // Stop the items still being generated
+      controller.abort();
+      setPhase('intro');
+      onError("Could not prepare the mock test.", error);
+    }
+  };
+
+  const handleFinish = async () => {
+    const elapsed = Math.round((Date.now() - startedAt) / 1000);
+    const timedOut = elapsed >= MOCK_TEST_TIME_LIMIT_SECONDS;
+    const durationSeconds = Math.min(MOCK_TEST_TIME_LIMIT_SECONDS, elapsed);
+    const controller = new AbortController();
+    pending.current = controller;
+    setPhase('scoring');
+
+    try {
+      const results = await scoreMockTest(items, controller.signal);
+      const report = buildMockTestResult(results.map(r => r.result), { level, durationSeconds, timedOut });
+      setScored(results);
+      setResult(report);
+      setPhase('done');
+      onComplete(report);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      // Answers are kept, so grading can simply be retried; once time is up they stay locked
+      const timeUp = Date.now() - startedAt >= MOCK_TEST_TIME_LIMIT_SECONDS * 1000;
+      setPhase(timeUp ? 'expired' : 'running');
+      onError("Could not score the mock test.", error);
+    }
+  };
+
+  useEffect(() => {
+    // Only once: if grading then fails, the learner retries from the 'expired' screen
+    if (phase !== 'running' || remaining > 0 || expired.current) return;
+    expired.current = true;
+    handleFinish();
+    // handleFinish is recreated every render; only the clock should trigger this
+  }, [phase, remaining]);
+
+  const confirmFinish = () => {
+    const unanswered = items.filter(item => !isItemAnswered(item)).length;
+    if (unanswered > 0 && !window.confirm(`${unanswered} item${unanswered > 1 ? 's are' : ' is'} unanswered and will score 0. Finish anyway?`)) return;
+    handleFinish();
+  };
+
+  const confirmExit = () => {
+    if ((phase === 'running' || phase === 'scoring' || phase === 'expired') && !window.confirm('Leave the test? Your answers will be lost.')) return;
+    onExit();
+  };
+
+  const updateItem = (index: number, next: MockTestItem) =>
+    setItems(prev => prev.map((item, i) => i === index ? next : item));
+
+  if (phase === 'intro') {
+    return (
+      <div className="max-w-2xl mx-auto p-6 animate-fade-in">
+        <button onClick={onExit} className="text-slate-400 hover:text-slate-600 mb-6">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-8">
+          <h1 className="text-2xl font-bold text-slate-900 mb-2">Mock Skill Test</h1>
+          <p className="text-slate-500 mb-6">
+            A timed assessment that estimates a CEFR-style band for reading and writing, with a printable report you can share.
+          </p>
+          <ul className="text-sm text-slate-600 space-y-2 mb-8">
+            <li className="flex items-center gap-2"><Clock className="w-4 h-4 text-slate-400" />{MOCK_TEST_TIME_LIMIT_SECONDS / 60} minutes for the whole test</li>
+            <li className="flex items-center gap-2"><BookOpen className="w-4 h-4 text-blue-600" />{MOCK_TEST_ITEM_COUNTS.reading} reading items from easy to advanced</li>
+            <li className="flex items-center gap-2"><PenTool className="w-4 h-4 text-indigo-600" />{MOCK_TEST_ITEM_COUNTS.writing} writing tasks, graded when you finish</li>
+            <li className="flex items-center gap-2"><Flag className="w-4 h-4 text-slate-400" />No answers or feedback until the end; results don't affect your XP</li>
+          </ul>
+          <Button className="w-full" onClick={handlePrepare}>Prepare Test</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'preparing' || phase === 'scoring') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <div className="w-10 h-10 border-4 border-brand-200 border-t-brand-600 rounded-full animate-spin mb-4"></div>
+        <p className="text-slate-500">
+          {phase === 'preparing' ? `Preparing your test... ${prepared}/${MOCK_TEST_ITEM_COUNTS.reading + MOCK_TEST_ITEM_COUNTS.writing}` : 'Scoring your answers...'}
+        </p>
+        <Button variant="outline" className="mt-6" onClick={confirmExit}>Cancel</Button>
+      </div>
+    );
+  }
+
+  if (phase === 'expired') {
+    return (
+      <div className="max-w-2xl mx-auto p-6 animate-fade-in">
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-8 text-center">
+          <Clock className="w-10 h-10 text-red-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-slate-900 mb-2">Time Is Up</h1>
+          <p className="text-slate-500 mb-8">
+            Your answers are locked, but grading did not finish. Try again to get your report.
+          </p>
+          <div className="flex justify-center gap-3">
+            <Button variant="outline" onClick={confirmExit}>Leave Test</Button>
+            <Button onClick={() => handleFinish()}>Retry Grading</Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'done' && result) {
+    return (
+      <div className="max-w-4xl mx-auto p-4 md:p-6 animate-fade-in print:max-w-none print:p-0">
+        <MockTestReport result={result} actions={<Button variant="outline" onClick={onExit}>Back to Dashboard</Button>} />
+
+        <div className="mt-10 space-y-8 print:hidden">
+          <h2 className="text-xl font-bold text-slate-800">Review Your Answers</h2>
+          {items.map((item, i) => (
+            <div key={i} className="space-y-4">
+              <h3 className="font-semibold text-slate-700">Item {i + 1} · <span className="capitalize">{item.skill}</span> · {scored[i]?.result.score}/100</h3>
+              {item.skill === 'reading' ? (
+                <>
+                  <EmailCard exercise={item.exercise} />
+                  {item.exercise.questions.map((q, qi) => (
+                    <QuestionCard key={qi} question={q} index={qi} selected={item.answers[qi]} submitted />
+                  ))}
+                </>
+              ) : (
+                <>
+                  <ScenarioCard scenario={item.scenario} />
+                  {scored[i]?.feedback
+                    ? <FeedbackPanel feedback={scored[i].feedback!} userDraft={item.draft} />
+                    : <p className="text-sm text-slate-500 italic">Not answered, so this task was not graded.</p>}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const item = items[current];
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 md:p-6 animate-fade-in pb-20">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={confirmExit} className="text-slate-400 hover:text-slate-600">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-2xl font-bold text-slate-800">Mock Skill Test</h2>
+        <span className={`ml-auto flex items-center gap-1.5 font-mono text-lg font-semibold ${remaining <= TIME_WARNING_SECONDS ? 'text-red-600' : 'text-slate-700'}`}>
+          <Clock className="w-5 h-5" />
+          {formatDuration(Math.max(0, remaining))}
+        </span>
+      </div>
+
+      {/* Item navigator */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {items.map((it, i) => (
+          <button
+            key={i}
+            onClick={() => setCurrent(i)}
+            title={`${it.skill === 'reading' ? 'Reading' : 'Writing'} item ${i + 1}`}
+            className={`w-10 h-10 rounded-lg border text-sm font-semibold transition-colors ${
+              i === current
+                ? 'bg-brand-600 border-brand-600 text-white'
+                : isItemAnswered(it)
+                  ? 'bg-green-50 border-green-200 text-green-700'
+                  : 'bg-white border-slate-200 text-slate-500 hover:border-brand-500'
+            }`}
+          >
+            {i + 1}
+          </button>
+        ))}
+      </div>
+
+      {item.skill === 'reading' ? (
+        <>
+          <EmailCard exercise={item.exercise} className="mb-8" />
+          <div className="space-y-6">
+            {item.exercise.questions.map((q, qi) => (
+              <QuestionCard
+                key={qi}
+                question={q}
+                index={qi}
+                selected={item.answers[qi]}
+                submitted={false}
+                onSelect={(opt) => updateItem(current, { ...item, answers: item.answers.map((a, ai) => ai === qi ? opt : a) })}
+              />
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          <ScenarioCard scenario={item.scenario} />
+          <textarea
+            value={item.draft}
+            onChange={(e) => updateItem(current, { ...item, draft: e.target.value })}
+            placeholder="Write your response here..."
+            className="w-full min-h-[320px] p-4 rounded-xl border border-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 resize-y text-sm"
+          />
+        </div>
+      )}
+
+      {/* Action Bar */}
+      <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-slate-200 shadow-lg flex justify-center">
+        <div className="w-full max-w-4xl flex justify-between gap-3">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setCurrent(current - 1)} disabled={current === 0}>
+              <ChevronLeft className="w-4 h-4" />
+              Prev
+            </Button>
+            <Button variant="outline" onClick={() => setCurrent(current + 1)} disabled={current === items.length - 1}>
+              Next
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+          <Button onClick={confirmFinish}>
+            <Flag className="w-4 h-4" />
+            Finish Test
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
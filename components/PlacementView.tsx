@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { DifficultyTier, ReadingExercise, WritingScenario } from '../types';
+import { generateReadingExercise, generateWritingScenario, evaluateWriting } from '../services/geminiService';
+import { getParamsForRating, levelToRating, DEFAULT_STARTING_RATING } from '../services/difficulty';
+import { getTier } from '../services/levels';
+import { EMPTY_FOCUS, pickExerciseVariables } from '../services/scenarioPicker';
+import { PLACEMENT_READING_ITEMS, PlacementScore, PlacementResult, nextReadingDifficulty, scoreReadingItem, buildPlacementResult } from '../services/placement';
+import { Button } from './Button';
+import { EmailCard } from './EmailCard';
+import { QuestionCard } from './QuestionCard';
+import { ScenarioCard } from './ScenarioCard';
+import { Compass, BookOpen, PenTool } from 'lucide-react';
+
+interface PlacementViewProps {
+  // The placed or overridden starting level and the rating practice starts from; level 1 when skipped
+  onComplete: (level: number, startingRating: number) => void;
+  onError: (message: string, error?: unknown) => void;
+}
+
+type Step =
+  | { kind: 'intro' }
+  | { kind: 'loading' }
+  | { kind: 'reading'; difficulty: number; exercise: ReadingExercise }
+  | { kind: 'writing'; difficulty: number; scenario: WritingScenario }
+  | { kind: 'scoring' }
+  | { kind: 'result'; result: PlacementResult };
+
+// The writing sample needs enough text to grade
+const MIN_DRAFT_LENGTH = 30;
+
+const TIER_EXPLANATIONS: Record<DifficultyTier, string> = {
+  [DifficultyTier.BEGINNER]: 'Short, clearly written messages about everyday engineering tasks: status updates, simple requests and confirmations.',
+  [DifficultyTier.INTERMEDIATE]: 'Technical discussions with overseas teammates: design trade-offs, bug reports and code review, with some idiomatic phrasing.',
+  [DifficultyTier.ADVANCED]: 'Management and strategy: negotiating scope, escalating to stakeholders and writing with precise, diplomatic tone.'
+};
+
+// First-launch flow: a short adaptive reading series plus one writing sample to pick the starting level.
+export const PlacementView: React.FC<PlacementViewProps> = ({ onComplete, onError }) => {
+  const [step, setStep] = useState<Step>({ kind: 'intro' });
+  const [scores, setScores] = useState<PlacementScore[]>([]);
+  const [answers, setAnswers] = useState<number[]>([]);
+  const [draft, setDraft] = useState('');
+  const [chosenLevel, setChosenLevel] = useState(1);
+  // Aborts generation or grading if the view goes away
+  const pending = useRef<AbortController | null>(null);
+
+  useEffect(() => () => pending.current?.abort(), []);
+
+  const readingDone = scores.filter(s => s.skill === 'reading').length;
+
+  // Generates the next item: reading until the series is complete, then the writing sample.
+  const loadNext = async (sofar: PlacementScore[]) => {
+    const controller = new AbortController();
+    pending.current = controller;
+    const readingScores = sofar.filter(s => s.skill === 'reading');
+    const difficulty = nextReadingDifficulty(readingScores);
+    const params = getParamsForRating(difficulty);
+    const skill = readingScores.length < PLACEMENT_READING_ITEMS ? 'reading' : 'writing';
+    setStep({ kind: 'loading' });
+
+    try {
+      const variables = pickExerciseVariables(skill, skill === 'reading' ? 'email' : 'message', EMPTY_FOCUS, []);
+      if (!variables) throw new Error(`No ${skill} topics available for placement.`);
+      if (skill === 'reading') {
+        const exercise = await generateReadingExercise(params, variables, controller.signal);
+        setAnswers(new Array(exercise.questions.length).fill(-1));
+        setStep({ kind: 'reading', difficulty, exercise });
+      } else {
+        const scenario = await generateWritingScenario(params, variables, controller.signal);
+        setDraft('');
+        setStep({ kind: 'writing', difficulty, scenario });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      // Keep the scores so far; the learner can retry from where they were
+      setStep({ kind: 'intro' });
+      onError("Could not prepare the placement test.", error);
+    }
+  };
+
+  const handleNextReading = () => {
+    if (step.kind !== 'reading') return;
+    const next = [...scores, { skill: 'reading' as const, difficulty: step.difficulty, score: scoreReadingItem(step.exercise, answers) }];
+    setScores(next);
+    loadNext(next);
+  };
+
+  const handleSubmitWriting = async () => {
+    if (step.kind !== 'writing') return;
+    const controller = new AbortController();
+    pending.current = controller;
+    const current = step;
+    setStep({ kind: 'scoring' });
+
+    try {
+      const feedback = await evaluateWriting(getParamsForRating(current.difficulty), current.scenario, draft, undefined, controller.signal);
+      const result = buildPlacementResult([...scores, { skill: 'writing', difficulty: current.difficulty, score: feedback.score }]);
+      setChosenLevel(result.level);
+      setStep({ kind: 'result', result });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setStep(current);
+      onError("Could not grade your writing sample.", error);
+    }
+  };
+
+  if (step.kind === 'intro') {
+    const started = scores.length > 0;
+    return (
+      <div className="max-w-2xl mx-auto p-6 animate-fade-in">
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-8">
+          <div className="w-12 h-12 bg-brand-50 text-brand-600 rounded-xl flex items-center justify-center mb-6">
+            <Compass className="w-6 h-6" />
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900 mb-2">Find Your Starting Level</h1>
+          <p className="text-slate-500 mb-6">
+            A short placement test sets your level so you start with content that matches your English, instead of working up from the basics.
+          </p>
+          <ul className="text-sm text-slate-600 space-y-2 mb-8">
+            <li className="flex items-center gap-2"><BookOpen className="w-4 h-4 text-blue-600" />{PLACEMENT_READING_ITEMS} reading items that adapt to your answers</li>
+            <li className="flex items-center gap-2"><PenTool className="w-4 h-4 text-indigo-600" />1 short writing sample</li>
+          </ul>
+          <Button className="w-full" onClick={() => loadNext(scores)}>{started ? 'Continue Placement' : 'Start Placement'}</Button>
+          <button onClick={() => onComplete(1, DEFAULT_STARTING_RATING)} className="w-full mt-3 text-sm text-slate-500 hover:text-brand-600">
+            Skip and start at Level 1
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step.kind === 'loading' || step.kind === 'scoring') {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <div className="w-10 h-10 border-4 border-brand-200 border-t-brand-600 rounded-full animate-spin mb-4"></div>
+        <p className="text-slate-500">{step.kind === 'loading' ? 'Preparing the next item...' : 'Working out your level...'}</p>
+      </div>
+    );
+  }
+
+  if (step.kind === 'result') {
+    const { result } = step;
+    const tier = getTier(chosenLevel);
+    return (
+      <div className="max-w-2xl mx-auto p-6 animate-fade-in">
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-8">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Placement Result</p>
+          <h1 className="text-3xl font-bold text-slate-900 mb-1">Level {result.level}</h1>
+          <p className="font-medium text-brand-600 mb-6">{result.tier}</p>
+
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            <div className="bg-slate-50 rounded-xl p-4">
+              <p className="text-xs text-slate-500 mb-1">Reading</p>
+              <p className="text-2xl font-bold text-blue-600">{result.skills.reading.band}</p>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-4">
+              <p className="text-xs text-slate-500 mb-1">Writing</p>
+              <p className="text-2xl font-bold text-indigo-600">{result.skills.writing.band}</p>
+            </div>
+          </div>
+
+          <p className="text-sm text-slate-600 mb-2">
+            Your answers put you at about {result.skills.reading.band} in reading and {result.skills.writing.band} in writing. At this level you will practise:
+          </p>
+          <p className="text-sm text-slate-600 mb-8">{TIER_EXPLANATIONS[result.tier]}</p>
+
+          <div className="border-t border-slate-100 pt-6">
+            <label className="flex justify-between text-sm font-medium text-slate-700 mb-2">
+              <span>Starting level</span>
+              <span>Level {chosenLevel} · <span className="text-slate-500 font-normal">{tier}</span></span>
+            </label>
+            <input
+              type="range"
+              min={1}
+              max={50}
+              value={chosenLevel}
+              onChange={(e) => setChosenLevel(Number(e.target.value))}
+              className="w-full accent-brand-600 mb-2"
+            />
+            <p className="text-xs text-slate-400 mb-6">
+              {chosenLevel === result.level
+                ? 'Feel free to adjust; exercises keep adapting to your scores either way.'
+                : `You changed the recommended level ${result.level}.`}
+            </p>
+            <Button className="w-full" onClick={() => onComplete(chosenLevel, chosenLevel === result.level ? result.rating : levelToRating(chosenLevel))}>Start at Level {chosenLevel}</Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 md:p-6 animate-fade-in pb-20">
+      <div className="flex items-center gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-slate-800">Placement Test</h2>
+        <span className="ml-auto text-sm text-slate-500">
+          {step.kind === 'reading' ? `Reading ${readingDone + 1} of ${PLACEMENT_READING_ITEMS}` : 'Writing sample'}
+        </span>
+      </div>
+
+      {step.kind === 'reading' ? (
+        <>
+          <EmailCard exercise={step.exercise} className="mb-8" />
+          <div className="space-y-6">
+            {step.exercise.questions.map((q, qi) => (
+              <QuestionCard
+                key={qi}
+                question={q}
+                index={qi}
+                selected={answers[qi]}
+                submitted={false}
+                onSelect={(opt) => setAnswers(prev => prev.map((a, ai) => ai === qi ? opt : a))}
+              />
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          <ScenarioCard scenario={step.scenario} />
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Write your response here..."
+            className="w-full min-h-[320px] p-4 rounded-xl border border-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 resize-y text-sm"
+          />
+        </div>
+      )}
+
+      {/* Action Bar */}
+      <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-slate-200 shadow-lg flex justify-center">
+        <div className="w-full max-w-4xl flex justify-end">
+          {step.kind === 'reading' ? (
+            <Button onClick={handleNextReading} disabled={answers.includes(-1)} className="w-full md:w-auto px-8">
+              Next
+            </Button>
+          ) : (
+            <Button variant="secondary" onClick={handleSubmitWriting} disabled={draft.trim().length < MIN_DRAFT_LENGTH} className="w-full md:w-auto px-8">
+              See My Level
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import { UserState } from '../types';
+import { Button } from './Button';
+import { exportProgressJson, exportHistoryCsv, parseProgressFile, applyImport, ImportMode } from '../services/progressTransfer';
+import { Logger } from '../services/logger';
+import { Download, Upload, FileSpreadsheet, HardDrive } from 'lucide-react';
+
+interface ProgressTransferPanelProps {
+  userState: UserState;
+  onImport: (state: UserState) => void;
+}
+
+export const ProgressTransferPanel: React.FC<ProgressTransferPanelProps> = ({ userState, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<UserState | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setImportError(null);
+    setMessage(null);
+    try {
+      setPending(parseProgressFile(await file.text()));
+    } catch (err) {
+      Logger.error("Failed to import progress file", err);
+      setImportError(err instanceof Error ? err.message : "Could not read the file.");
+    }
+  };
+
+  const handleApply = (mode: ImportMode) => {
+    if (!pending) return;
+    onImport(applyImport(userState, pending, mode));
+    setMessage(mode === 'replace' ? 'Progress replaced from file.' : 'Progress merged from file.');
+    setPending(null);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
+      <h3 className="text-lg font-semibold text-slate-900 mb-1 flex items-center gap-2">
+        <HardDrive className="w-5 h-5 text-slate-400" />
+        Your Data
+      </h3>
+      <p className="text-sm text-slate-500 mb-4">
+        Progress is stored in this browser only. Export it to move to another machine or to share with your manager.
+      </p>
+
+      <div className="flex flex-wrap gap-3">
+        <Button variant="outline" onClick={() => exportProgressJson(userState)}>
+          <Download className="w-4 h-4" />
+          Export Progress (JSON)
+        </Button>
+        <Button variant="outline" onClick={() => exportHistoryCsv(userState.history)} disabled={userState.history.length === 0}>
+          <FileSpreadsheet className="w-4 h-4" />
+          Export History (CSV)
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4" />
+          Import Progress
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+      </div>
+
+      {importError && (
+        <p className="mt-4 text-sm text-red-600 bg-red-50 border border-red-100 p-3 rounded-lg">{importError}</p>
+      )}
+      {message && (
+        <p className="mt-4 text-sm text-green-700 bg-green-50 border border-green-100 p-3 rounded-lg">{message}</p>
+      )}
+
+      {pending && (
+        <div className="mt-4 p-4 rounded-lg bg-slate-50 border border-slate-200 animate-fade-in">
+          <p className="text-sm text-slate-700 mb-3">
+            File contains <span className="font-semibold">Level {pending.level}</span> with{' '}
+            <span className="font-semibold">{pending.history.length}</span> exercises and{' '}
+            <span className="font-semibold">{pending.reviewDeck.length}</span> review cards.
+            Merge keeps everything from both; Replace discards the current progress in this browser.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <Button onClick={() => handleApply('merge')}>Merge</Button>
+            <Button variant="danger" onClick={() => handleApply('replace')}>Replace</Button>
+            <Button variant="outline" onClick={() => setPending(null)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
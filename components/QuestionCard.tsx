@@ -0,0 +1,56 @@
+import React from 'react';
+import { ReadingQuestion } from '../types';
+import { CheckCircle, XCircle } from 'lucide-react';
+
+interface QuestionCardProps {
+  question: ReadingQuestion;
+  index: number;
+  selected: number; // -1 when unanswered
+  submitted: boolean;
+  onSelect?: (optIndex: number) => void; // Omit for read-only display
+}
+
+export const QuestionCard: React.FC<QuestionCardProps> = ({ question, index, selected, submitted, onSelect }) => {
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200">
+      <h4 className="font-medium text-slate-900 mb-4">{index + 1}. {question.question}</h4>
+      <div className="space-y-2">
+        {question.options.map((opt, optIndex) => {
+          const isSelected = selected === optIndex;
+          const isCorrect = submitted && question.correctIndex === optIndex;
+          const isWrong = submitted && isSelected && question.correctIndex !== optIndex;
+
+          let btnClass = "w-full text-left p-3 rounded-lg border-2 transition-all ";
+          if (submitted) {
+              if (isCorrect) btnClass += "border-green-500 bg-green-50 text-green-700";
+              else if (isWrong) btnClass += "border-red-300 bg-red-50 text-red-700";
+              else btnClass += "border-transparent bg-slate-50 text-slate-400";
+          } else {
+              if (isSelected) btnClass += "border-brand-500 bg-brand-50 text-brand-700";
+              else btnClass += "border-transparent bg-slate-50 hover:bg-slate-100 text-slate-600";
+          }
+
+          return (
+            <button
+              key={optIndex}
+              onClick={() => onSelect?.(optIndex)}
+              disabled={submitted || !onSelect}
+              className={btnClass}
+            >
+              <div className="flex justify-between items-center">
+                <span>{opt}</span>
+                {isCorrect && <CheckCircle className="w-5 h-5 text-green-600" />}
+                {isWrong && <XCircle className="w-5 h-5 text-red-500" />}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+      {submitted && (
+        <div className="mt-4 text-sm text-slate-600 bg-blue-50 p-3 rounded-lg">
+          <span className="font-bold">Explanation:</span> {question.explanation}
+        </div>
+      )}
+    </div>
+  );
+};
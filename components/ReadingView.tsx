@@ -1,43 +1,54 @@
 import React, { useState, useEffect } from 'react';
-import { generateReadingExercise } from '../services/geminiService';
-import { ReadingExercise } from '../types';
+import { generateReadingExercise, generateThreadExercise, generateReadingFromText } from '../services/geminiService';
+import { ReadingExercise, ReadingTranscript, GenerationParams, ReadingSource, TermDefinition } from '../types';
 import { Button } from './Button';
-import { ArrowLeft, CheckCircle, XCircle, Mail } from 'lucide-react';
+import { EmailCard } from './EmailCard';
+import { ThreadCard } from './ThreadCard';
+import { QuestionCard } from './QuestionCard';
+import { StudyAids } from './StudyAids';
+import { ArrowLeft } from 'lucide-react';
 
 interface ReadingViewProps {
   level: number;
-  onComplete: (score: number) => void;
+  params: GenerationParams;
+  source: ReadingSource;
+  onComplete: (score: number, transcript: ReadingTranscript) => void;
   onExit: () => void;
-  onError: (msg: string) => void;
+  onError: (message: string, error?: unknown) => void;
+  onSaveTerm: (definition: TermDefinition, context: string) => void;
 }
 
-export const ReadingView: React.FC<ReadingViewProps> = ({ level, onComplete, onExit, onError }) => {
-  const [loading, setLoading] = useState(true);
-  const [exercise, setExercise] = useState<ReadingExercise | null>(null);
-  const [answers, setAnswers] = useState<number[]>([]);
+export const ReadingView: React.FC<ReadingViewProps> = ({ level, params, source, onComplete, onExit, onError, onSaveTerm }) => {
+  const prefetched = source.kind === 'generated' ? source.exercise : undefined;
+  const [loading, setLoading] = useState(!prefetched);
+  const [exercise, setExercise] = useState<ReadingExercise | null>(prefetched ?? null);
+  const [answers, setAnswers] = useState<number[]>(() => new Array(prefetched?.questions.length ?? 0).fill(-1));
   const [submitted, setSubmitted] = useState(false);
 
   useEffect(() => {
-    let mounted = true;
-    generateReadingExercise(level)
+    if (source.kind === 'generated' && source.exercise) return;
+    // Leaving the view aborts the request instead of letting it finish unseen
+    const controller = new AbortController();
+    const request = source.kind === 'custom'
+      ? generateReadingFromText(params, source.text, controller.signal)
+      : source.format === 'thread'
+        ? generateThreadExercise(params, source.variables, controller.signal)
+        : generateReadingExercise(params, source.variables, controller.signal);
+    request
       .then(data => {
-        if (mounted) {
-          setExercise(data);
-          setAnswers(new Array(data.questions.length).fill(-1));
-          setLoading(false);
-        }
+        if (controller.signal.aborted) return;
+        setExercise(data);
+        setAnswers(new Array(data.questions.length).fill(-1));
+        setLoading(false);
       })
       .catch(err => {
-        if (mounted) {
-            setLoading(false);
-            const msg = err instanceof Error ? err.message : "Failed to load exercise.";
-            onError(`Could not generate reading task: ${msg}`);
-            // Optional: return to dashboard or allow retry
-        }
+        if (controller.signal.aborted) return;
+        setLoading(false);
+        onError("Could not generate reading task.", err);
       });
-      
-    return () => { mounted = false; };
-  }, [level, onError]);
+
+    return () => controller.abort();
+  }, [params, source, onError]);
 
   const handleSelect = (qIndex: number, optIndex: number) => {
     if (submitted) return;
@@ -59,7 +70,7 @@ export const ReadingView: React.FC<ReadingViewProps> = ({ level, onComplete, onE
     // Auto complete after 3 seconds to let user see results
     setTimeout(() => {
         const score = Math.round((correctCount / exercise.questions.length) * 100);
-        onComplete(score);
+        onComplete(score, { type: 'reading', exercise, answers });
     }, 4000);
   };
 
@@ -67,7 +78,9 @@ export const ReadingView: React.FC<ReadingViewProps> = ({ level, onComplete, onE
     return (
       <div className="flex flex-col items-center justify-center h-96">
         <div className="w-10 h-10 border-4 border-brand-200 border-t-brand-600 rounded-full animate-spin mb-4"></div>
-        <p className="text-slate-500">Generating unique Level {level} content...</p>
+        <p className="text-slate-500">
+          {source.kind === 'custom' ? 'Building questions from your text...' : `Generating unique Level ${level} content...`}
+        </p>
       </div>
     );
   }
@@ -90,63 +103,32 @@ export const ReadingView: React.FC<ReadingViewProps> = ({ level, onComplete, onE
         <h2 className="text-2xl font-bold text-slate-800">Reading Task</h2>
       </div>
 
-      {/* Email Display */}
-      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mb-8">
-        <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-3">
-          <Mail className="w-5 h-5 text-slate-400" />
-          <div className="flex-1">
-            <h3 className="font-semibold text-slate-800">{exercise.subject}</h3>
-            <p className="text-sm text-slate-500">From: {exercise.sender}</p>
-          </div>
-        </div>
-        <div className="p-6 md:p-8 font-mono text-sm md:text-base leading-relaxed text-slate-700 whitespace-pre-wrap">
-          {exercise.body}
-        </div>
-      </div>
+      {/* Email / Thread Display */}
+      {exercise.format === 'thread'
+        ? <ThreadCard exercise={exercise} className="mb-8" onSaveTerm={onSaveTerm} />
+        : <EmailCard exercise={exercise} className="mb-8" onSaveTerm={onSaveTerm} />}
+
+      {/* Study aids for the learner's own text; collapsed so the paraphrase doesn't give answers away */}
+      {exercise.custom && (
+        <details className="mb-8">
+          <summary className="cursor-pointer text-sm font-medium text-brand-600 hover:text-brand-700 mb-4">
+            Show vocabulary and plain-English paraphrase
+          </summary>
+          <StudyAids exercise={exercise} />
+        </details>
+      )}
 
       {/* Questions */}
       <div className="space-y-6">
         {exercise.questions.map((q, qIndex) => (
-          <div key={qIndex} className="bg-white p-6 rounded-xl border border-slate-200">
-            <h4 className="font-medium text-slate-900 mb-4">{qIndex + 1}. {q.question}</h4>
-            <div className="space-y-2">
-              {q.options.map((opt, optIndex) => {
-                const isSelected = answers[qIndex] === optIndex;
-                const isCorrect = submitted && q.correctIndex === optIndex;
-                const isWrong = submitted && isSelected && q.correctIndex !== optIndex;
-
-                let btnClass = "w-full text-left p-3 rounded-lg border-2 transition-all ";
-                if (submitted) {
-                    if (isCorrect) btnClass += "border-green-500 bg-green-50 text-green-700";
-                    else if (isWrong) btnClass += "border-red-300 bg-red-50 text-red-700";
-                    else btnClass += "border-transparent bg-slate-50 text-slate-400";
-                } else {
-                    if (isSelected) btnClass += "border-brand-500 bg-brand-50 text-brand-700";
-                    else btnClass += "border-transparent bg-slate-50 hover:bg-slate-100 text-slate-600";
-                }
-
-                return (
-                  <button
-                    key={optIndex}
-                    onClick={() => handleSelect(qIndex, optIndex)}
-                    disabled={submitted}
-                    className={btnClass}
-                  >
-                    <div className="flex justify-between items-center">
-                      <span>{opt}</span>
-                      {isCorrect && <CheckCircle className="w-5 h-5 text-green-600" />}
-                      {isWrong && <XCircle className="w-5 h-5 text-red-500" />}
-                    </div>
-                  </button>
-                );
-              })}
-            </div>
-            {submitted && (
-              <div className="mt-4 text-sm text-slate-600 bg-blue-50 p-3 rounded-lg">
-                <span className="font-bold">Explanation:</span> {q.explanation}
-              </div>
-            )}
-          </div>
+          <QuestionCard
+            key={qIndex}
+            question={q}
+            index={qIndex}
+            selected={answers[qIndex]}
+            submitted={submitted}
+            onSelect={(optIndex) => handleSelect(qIndex, optIndex)}
+          />
         ))}
       </div>
 
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { ExerciseResult } from '../types';
+import { Button } from './Button';
+import { EmailCard } from './EmailCard';
+import { ThreadCard } from './ThreadCard';
+import { SpokenMessageCard } from './SpokenMessageCard';
+import { AudioPlayer } from './AudioPlayer';
+import { QuestionCard } from './QuestionCard';
+import { StudyAids } from './StudyAids';
+import { ScenarioCard } from './ScenarioCard';
+import { FeedbackPanel } from './FeedbackPanel';
+import { RevisionTimeline } from './RevisionTimeline';
+import { ReviewDiff } from './ReviewDiff';
+import { RolePlayConversation } from './RolePlayConversation';
+import { isSpeechSynthesisSupported } from '../services/speech';
+import { ArrowLeft, History } from 'lucide-react';
+
+interface ReplayViewProps {
+  entry: ExerciseResult;
+  onExit: () => void;
+}
+
+// Read-only playback of a finished exercise, rebuilt from the transcript stored in history.
+export const ReplayView: React.FC<ReplayViewProps> = ({ entry, onExit }) => {
+  const { transcript } = entry;
+  const revisions = transcript?.type === 'writing' ? transcript.revisions ?? [] : [];
+  // Start on the final attempt, which is the one that was scored
+  const [selectedRevision, setSelectedRevision] = useState(Math.max(0, revisions.length - 1));
+  const shownRevision = revisions[selectedRevision];
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 md:p-6 animate-fade-in pb-20">
+      <div className="flex items-center gap-4 mb-2">
+        <button onClick={onExit} className="text-slate-400 hover:text-slate-600">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-2xl font-bold text-slate-800 capitalize">{entry.type} Replay</h2>
+        <span className={`ml-auto font-bold ${entry.score >= 80 ? 'text-green-600' : 'text-slate-600'}`}>
+          {entry.score}/100
+        </span>
+      </div>
+      <p className="text-sm text-slate-500 mb-6 ml-10 flex items-center gap-2">
+        <History className="w-4 h-4" />
+        {new Date(entry.date).toLocaleString()} <span className="text-slate-300">|</span> Level {entry.level}
+      </p>
+
+      {!transcript && (
+        <div className="flex flex-col items-center justify-center h-64 text-slate-500">
+          <p>No transcript was recorded for this exercise.</p>
+          <Button onClick={onExit} variant="outline" className="mt-4">Return to Dashboard</Button>
+        </div>
+      )}
+
+      {transcript?.type === 'reading' && (
+        <>
+          {transcript.exercise.format === 'thread'
+            ? <ThreadCard exercise={transcript.exercise} className="mb-8" />
+            : <EmailCard exercise={transcript.exercise} className="mb-8" />}
+          <StudyAids exercise={transcript.exercise} className="mb-8" />
+          <div className="space-y-6">
+            {transcript.exercise.questions.map((q, qIndex) => (
+              <QuestionCard
+                key={qIndex}
+                question={q}
+                index={qIndex}
+                selected={transcript.answers[qIndex] ?? -1}
+                submitted
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {transcript?.type === 'listening' && (
+        <>
+          {isSpeechSynthesisSupported() && <AudioPlayer text={transcript.exercise.body} className="mb-6" />}
+          <SpokenMessageCard exercise={transcript.exercise} showTranscript className="mb-8" />
+          <div className="space-y-6">
+            {transcript.exercise.questions.map((q, qIndex) => (
+              <QuestionCard
+                key={qIndex}
+                question={q}
+                index={qIndex}
+                selected={transcript.answers[qIndex] ?? -1}
+                submitted
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {transcript?.type === 'writing' && transcript.scenario.format === 'review' && transcript.scenario.diff && (
+        <>
+          <div className="space-y-6 mb-6">
+            <ScenarioCard scenario={transcript.scenario} />
+            <ReviewDiff
+              diff={transcript.scenario.diff}
+              comments={shownRevision?.comments ?? transcript.comments ?? []}
+              feedback={shownRevision?.feedback ?? transcript.feedback}
+              plantedIssues={transcript.scenario.plantedIssues}
+            />
+          </div>
+          {revisions.length > 1 && (
+            <RevisionTimeline revisions={revisions} selected={selectedRevision} onSelect={setSelectedRevision} />
+          )}
+          <FeedbackPanel feedback={shownRevision?.feedback ?? transcript.feedback} />
+        </>
+      )}
+
+      {transcript?.type === 'writing' && transcript.conversation && (
+        <>
+          <div className="grid md:grid-cols-5 gap-6 mb-6">
+            <div className="md:col-span-2">
+              <ScenarioCard scenario={transcript.scenario} />
+            </div>
+            <div className="md:col-span-3 p-4 bg-slate-50 border border-slate-200 rounded-xl">
+              <RolePlayConversation conversation={transcript.conversation} partner={transcript.scenario.recipientRole} feedback={transcript.feedback} />
+            </div>
+          </div>
+          <FeedbackPanel feedback={transcript.feedback} userDraft={transcript.userDraft} />
+        </>
+      )}
+
+      {transcript?.type === 'writing' && !transcript.conversation && !(transcript.scenario.format === 'review' && transcript.scenario.diff) && (
+        <>
+          <div className="grid md:grid-cols-2 gap-6 mb-6">
+            <ScenarioCard scenario={transcript.scenario} />
+            <div className="flex flex-col">
+              <span className="block text-sm font-medium text-slate-700 mb-2">{transcript.scenario.format === 'spoken' ? 'Your Answer (Transcript)' : 'Your Draft'}</span>
+              <div className="flex-1 p-4 rounded-xl border border-slate-200 bg-white font-mono text-sm text-slate-700 whitespace-pre-wrap">
+                {shownRevision?.draft ?? transcript.userDraft}
+              </div>
+            </div>
+          </div>
+          {revisions.length > 1 && (
+            <RevisionTimeline revisions={revisions} selected={selectedRevision} onSelect={setSelectedRevision} />
+          )}
+          <FeedbackPanel
+            feedback={shownRevision?.feedback ?? transcript.feedback}
+            userDraft={shownRevision?.draft ?? transcript.userDraft}
+          />
+        </>
+      )}
+    </div>
+  );
+};
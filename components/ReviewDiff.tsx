@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { CodeDiff, PlantedIssue, ReviewComment, ReviewSeverity, WritingFeedback } from '../types';
+import { REVIEW_SEVERITIES, MIN_COMMENT_LENGTH, getCommentFeedback } from '../services/codeReview';
+import { Button } from './Button';
+import { FileCode, MessageSquarePlus, Trash2, CheckCircle2, XCircle, Bug } from 'lucide-react';
+
+interface ReviewDiffProps {
+  diff: CodeDiff;
+  comments: ReviewComment[];
+  feedback?: WritingFeedback;     // Shows per-comment grading under each comment
+  plantedIssues?: PlantedIssue[]; // Revealed after grading
+  onChange?: (comments: ReviewComment[]) => void; // Without it the diff is read-only
+}
+
+const LINE_STYLE = {
+  context: 'bg-white text-slate-700',
+  add: 'bg-green-50 text-green-900',
+  remove: 'bg-red-50 text-red-900'
+};
+
+const LINE_PREFIX = { context: ' ', add: '+', remove: '-' };
+
+const SEVERITY_STYLE: Record<ReviewSeverity, string> = {
+  nit: 'bg-slate-100 text-slate-600',
+  suggestion: 'bg-blue-100 text-blue-700',
+  blocking: 'bg-red-100 text-red-700'
+};
+
+const SeverityBadge: React.FC<{ severity: ReviewSeverity }> = ({ severity }) => (
+  <span className={`text-xs font-semibold uppercase tracking-wide px-2 py-0.5 rounded ${SEVERITY_STYLE[severity]}`}>{severity}</span>
+);
+
+const CommentComposer: React.FC<{
+  initial?: ReviewComment;
+  line: number;
+  onSave: (comment: ReviewComment) => void;
+  onCancel: () => void;
+}> = ({ initial, line, onSave, onCancel }) => {
+  const [severity, setSeverity] = useState<ReviewSeverity>(initial?.severity ?? 'suggestion');
+  const [text, setText] = useState(initial?.text ?? '');
+
+  return (
+    <div className="p-3 bg-slate-50 border-y border-slate-200 font-sans space-y-2">
+      <div className="flex gap-2">
+        {REVIEW_SEVERITIES.map(s => (
+          <button
+            key={s.key}
+            onClick={() => setSeverity(s.key)}
+            title={s.hint}
+            className={`px-3 py-1 rounded-lg text-xs font-medium border transition-colors ${
+              severity === s.key ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 bg-white text-slate-500 hover:border-slate-300'
+            }`}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        autoFocus
+        rows={3}
+        placeholder="e.g. Could we handle the case where..."
+        className="w-full p-3 rounded-lg border border-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button
+          variant="secondary"
+          onClick={() => onSave({ line, severity, text: text.trim() })}
+          disabled={text.trim().length < MIN_COMMENT_LENGTH}
+        >
+          {initial ? 'Update Comment' : 'Add Comment'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Unified diff with line-anchored review comments, one comment per line.
+export const ReviewDiff: React.FC<ReviewDiffProps> = ({ diff, comments, feedback, plantedIssues, onChange }) => {
+  const [editingLine, setEditingLine] = useState<number | null>(null);
+
+  const handleSave = (comment: ReviewComment) => {
+    onChange?.([...comments.filter(c => c.line !== comment.line), comment]);
+    setEditingLine(null);
+  };
+
+  const handleRemove = (line: number) => {
+    onChange?.(comments.filter(c => c.line !== line));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-100 flex items-center gap-2">
+        <FileCode className="w-4 h-4 text-slate-400" />
+        <span className="font-mono text-sm text-slate-700">{diff.filePath}</span>
+        <span className="text-xs text-slate-400 ml-auto">
+          {comments.length} comment{comments.length === 1 ? '' : 's'}
+          {onChange && ' · click a line number to comment'}
+        </span>
+      </div>
+      <div className="font-mono text-xs md:text-sm overflow-x-auto">
+        {diff.lines.map((line, i) => {
+          const lineNumber = i + 1;
+          const comment = comments.find(c => c.line === lineNumber);
+          const graded = getCommentFeedback(feedback, lineNumber);
+          const issue = plantedIssues?.find(p => p.line === lineNumber);
+
+          return (
+            <div key={i}>
+              <div className={`flex ${LINE_STYLE[line.kind]} ${issue ? 'ring-1 ring-inset ring-amber-400' : ''}`}>
+                <button
+                  onClick={() => onChange && setEditingLine(lineNumber)}
+                  disabled={!onChange}
+                  className="w-12 shrink-0 text-right pr-2 text-slate-400 select-none enabled:hover:text-indigo-600 enabled:hover:bg-indigo-50 flex items-center justify-end gap-1"
+                  title={onChange ? 'Comment on this line' : undefined}
+                >
+                  {onChange && !comment && <MessageSquarePlus className="w-3 h-3 opacity-40" />}
+                  {lineNumber}
+                </button>
+                <pre className="flex-1 px-2 whitespace-pre">{LINE_PREFIX[line.kind]} {line.text}</pre>
+              </div>
+
+              {issue && (
+                <div className="flex gap-2 px-4 py-2 bg-amber-50 border-y border-amber-100 font-sans text-sm text-amber-800">
+                  <Bug className="w-4 h-4 shrink-0 mt-0.5" />
+                  {issue.description}
+                </div>
+              )}
+
+              {editingLine === lineNumber ? (
+                <CommentComposer
+                  key={lineNumber}
+                  line={lineNumber}
+                  initial={comment}
+                  onSave={handleSave}
+                  onCancel={() => setEditingLine(null)}
+                />
+              ) : comment && (
+                <div className="px-4 py-3 bg-indigo-50/50 border-y border-indigo-100 font-sans text-sm space-y-2">
+                  <div className="flex items-start gap-2">
+                    <SeverityBadge severity={comment.severity} />
+                    <p className="flex-1 text-slate-800 whitespace-pre-wrap">{comment.text}</p>
+                    {onChange && (
+                      <>
+                        <button onClick={() => setEditingLine(lineNumber)} className="text-xs text-indigo-600 hover:underline">Edit</button>
+                        <button onClick={() => handleRemove(lineNumber)} className="text-slate-300 hover:text-red-500" title="Remove comment">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  {graded && (
+                    <div className="bg-white rounded-lg border border-slate-200 p-3 space-y-2 text-xs text-slate-600">
+                      <p className={`flex items-center gap-1.5 font-medium ${graded.identifiesIssue ? 'text-green-600' : 'text-slate-500'}`}>
+                        {graded.identifiesIssue ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                        {graded.identifiesIssue ? 'Found a real problem' : 'Not one of the planted problems'}
+                        {graded.suggestedSeverity !== comment.severity && (
+                          <span className="ml-2 text-slate-500 font-normal">Suggested severity: <SeverityBadge severity={graded.suggestedSeverity} /></span>
+                        )}
+                      </p>
+                      <p><span className="font-semibold text-slate-700">Clarity {graded.clarity.score}</span> — {graded.clarity.justification}</p>
+                      <p><span className="font-semibold text-slate-700">Politeness {graded.politeness.score}</span> — {graded.politeness.justification}</p>
+                      <p className="italic bg-slate-50 p-2 rounded text-slate-700">{graded.improvedComment}</p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
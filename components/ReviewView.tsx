@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { ReviewCard } from '../types';
+import { ReviewGrade, getDueCards } from '../services/spacedRepetition';
+import { Button } from './Button';
+import { ArrowLeft, Layers, Eye, CheckCircle2 } from 'lucide-react';
+
+interface ReviewViewProps {
+  deck: ReviewCard[];
+  onGrade: (cardId: string, grade: ReviewGrade) => void;
+  onExit: () => void;
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; variant: 'danger' | 'outline' | 'primary' | 'secondary' }[] = [
+  { grade: ReviewGrade.AGAIN, label: 'Again', variant: 'danger' },
+  { grade: ReviewGrade.HARD, label: 'Hard', variant: 'outline' },
+  { grade: ReviewGrade.GOOD, label: 'Good', variant: 'primary' },
+  { grade: ReviewGrade.EASY, label: 'Easy', variant: 'secondary' }
+];
+
+export const ReviewView: React.FC<ReviewViewProps> = ({ deck, onGrade, onExit }) => {
+  // Snapshot the due queue at mount so rescheduled cards don't reshuffle the session
+  const [queue] = useState<ReviewCard[]>(() => getDueCards(deck));
+  const [index, setIndex] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+
+  const card = queue[index];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    onGrade(card.id, grade);
+    setRevealed(false);
+    setIndex(i => i + 1);
+  };
+
+  const nextDue = deck
+    .map(c => c.dueDate)
+    .filter(d => new Date(d).getTime() > Date.now())
+    .sort()[0];
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 md:p-6 animate-fade-in pb-20">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={onExit} className="text-slate-400 hover:text-slate-600">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-2xl font-bold text-slate-800">Review Deck</h2>
+        {card && (
+          <span className="ml-auto text-sm text-slate-500">{index + 1} / {queue.length}</span>
+        )}
+      </div>
+
+      {!card ? (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-10 text-center">
+          <CheckCircle2 className="w-10 h-10 text-green-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-slate-900 mb-2">All caught up!</h3>
+          <p className="text-slate-500 text-sm mb-6">
+            {queue.length > 0 ? `You reviewed ${queue.length} card${queue.length > 1 ? 's' : ''}. ` : 'No cards are due right now. '}
+            {nextDue && `Next review: ${new Date(nextDue).toLocaleDateString()}`}
+          </p>
+          <Button onClick={onExit} variant="outline" className="mx-auto">Return to Dashboard</Button>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex items-center gap-3">
+            <Layers className="w-5 h-5 text-slate-400" />
+            <div className="flex-1">
+              <h3 className="font-semibold text-slate-800">
+                {card.kind === 'reading' ? 'Reading Question' : 'Fix the Sentence'}
+              </h3>
+              <p className="text-sm text-slate-500">From: {card.source}</p>
+            </div>
+          </div>
+
+          <div className="p-6 md:p-8 space-y-6">
+            {card.context && (
+              <div className="font-mono text-sm leading-relaxed text-slate-600 whitespace-pre-wrap bg-slate-50 p-4 rounded-lg max-h-48 overflow-y-auto">
+                {card.context}
+              </div>
+            )}
+            <p className="text-lg font-medium text-slate-900">{card.prompt}</p>
+
+            {revealed ? (
+              <div className="space-y-3 animate-fade-in">
+                <div className="bg-green-50 border border-green-100 p-4 rounded-lg text-green-800 font-medium">
+                  {card.answer}
+                </div>
+                <div className="text-sm text-slate-600 bg-blue-50 p-3 rounded-lg">
+                  <span className="font-bold">Explanation:</span> {card.explanation}
+                </div>
+              </div>
+            ) : (
+              <Button onClick={() => setRevealed(true)} variant="outline" className="w-full">
+                <Eye className="w-4 h-4" />
+                Show Answer
+              </Button>
+            )}
+          </div>
+
+          {revealed && (
+            <div className="p-4 bg-slate-50 border-t border-slate-100 grid grid-cols-4 gap-2">
+              {GRADE_BUTTONS.map(({ grade, label, variant }) => (
+                <Button key={grade} variant={variant} onClick={() => handleGrade(grade)}>
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
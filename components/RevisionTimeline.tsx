@@ -0,0 +1,54 @@
+import React from 'react';
+import { WritingRevision } from '../types';
+import { getImprovementBonus } from '../services/xp';
+import { GitCommitHorizontal } from 'lucide-react';
+
+interface RevisionTimelineProps {
+  revisions: WritingRevision[];
+  selected: number;
+  onSelect: (index: number) => void;
+}
+
+export const RevisionTimeline: React.FC<RevisionTimelineProps> = ({ revisions, selected, onSelect }) => {
+  const firstScore = revisions[0].feedback.score;
+  const latestScore = revisions[revisions.length - 1].feedback.score;
+  const bonus = getImprovementBonus(firstScore, latestScore);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-sm font-semibold text-slate-900 flex items-center gap-2">
+          <GitCommitHorizontal className="w-4 h-4 text-slate-400" />
+          Revision Timeline
+        </h4>
+        {bonus > 0 && (
+          <span className="text-xs font-medium text-green-700 bg-green-50 px-2 py-1 rounded">
+            Improvement bonus: +{bonus} XP
+          </span>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {revisions.map((rev, i) => {
+          const delta = i > 0 ? rev.feedback.score - revisions[i - 1].feedback.score : null;
+          return (
+            <button
+              key={rev.submittedAt}
+              onClick={() => onSelect(i)}
+              className={`px-3 py-2 rounded-lg border-2 text-left text-xs transition-all ${
+                i === selected ? 'border-indigo-500 bg-indigo-50' : 'border-transparent bg-slate-50 hover:bg-slate-100'
+              }`}
+            >
+              <span className="block text-slate-500">Attempt {i + 1}</span>
+              <span className="font-bold text-slate-800">{rev.feedback.score}</span>
+              {delta !== null && (
+                <span className={`ml-1 ${delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-500' : 'text-slate-400'}`}>
+                  ({delta > 0 ? '+' : ''}{delta})
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { RolePlayTurn, TermDefinition, WritingFeedback } from '../types';
+import { getTurnNote } from '../services/rolePlay';
+import { SelectableText } from './SelectableText';
+import { MessageSquareText } from 'lucide-react';
+
+interface RolePlayConversationProps {
+  conversation: RolePlayTurn[];
+  partner: string;            // The scenario's recipientRole
+  feedback?: WritingFeedback; // Shows the per-message notes once graded
+  onSaveTerm?: (definition: TermDefinition, context: string) => void;
+}
+
+export const RolePlayConversation: React.FC<RolePlayConversationProps> = ({ conversation, partner, feedback, onSaveTerm }) => {
+  let learnerTurn = 0;
+
+  return (
+    <ol className="space-y-4">
+      {conversation.map((turn, i) => {
+        if (turn.speaker === 'partner') {
+          return (
+            <li key={i} className="flex flex-col items-start">
+              <span className="text-xs text-slate-400 mb-1">{partner}</span>
+              <SelectableText
+                text={turn.text}
+                onSaveTerm={onSaveTerm}
+                className="max-w-[85%] px-4 py-2.5 rounded-2xl rounded-tl-sm bg-white border border-slate-200 text-sm text-slate-700 whitespace-pre-wrap"
+              />
+            </li>
+          );
+        }
+        const note = getTurnNote(feedback, ++learnerTurn);
+        return (
+          <li key={i} className="flex flex-col items-end">
+            <span className="text-xs text-slate-400 mb-1">You · {learnerTurn}</span>
+            <p className="max-w-[85%] px-4 py-2.5 rounded-2xl rounded-tr-sm bg-indigo-600 text-white text-sm whitespace-pre-wrap">{turn.text}</p>
+            {note && (
+              <p className="max-w-[85%] mt-2 px-3 py-2 rounded-lg bg-amber-50 border border-amber-100 text-xs text-amber-800 flex gap-2">
+                <MessageSquareText className="w-4 h-4 shrink-0" />
+                {note.note}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { generateWritingScenario, replyInRolePlay, evaluateRolePlay } from '../services/geminiService';
+import { MAX_ROLE_PLAY_TURNS, formatLearnerMessages, getLearnerMessages } from '../services/rolePlay';
+import { WritingScenario, WritingTranscript, WritingFeedback, GenerationParams, ScenarioVariables, TermDefinition, RolePlayTurn, PartialWritingFeedback } from '../types';
+import { Button } from './Button';
+import { ScenarioCard } from './ScenarioCard';
+import { FeedbackPanel } from './FeedbackPanel';
+import { StreamingFeedback } from './StreamingFeedback';
+import { RolePlayConversation } from './RolePlayConversation';
+import { ArrowLeft, Send, Flag, CheckCircle2 } from 'lucide-react';
+
+interface RolePlayViewProps {
+  level: number;
+  params: GenerationParams;
+  variables: ScenarioVariables;
+  prefetched?: WritingScenario; // Ready-made scenario from the prefetch queue; skips generation
+  onComplete: (score: number, transcript: WritingTranscript) => void;
+  onExit: () => void;
+  onError: (message: string, error?: unknown) => void;
+  onSaveTerm: (definition: TermDefinition, context: string) => void;
+}
+
+// Why the conversation stopped taking messages
+type EndReason = 'goal' | 'limit' | 'learner';
+
+const END_MESSAGES: Record<EndReason, string> = {
+  goal: 'Goal reached! Get feedback on the whole conversation.',
+  limit: `That was the last of ${MAX_ROLE_PLAY_TURNS} messages. Get feedback on the whole conversation.`,
+  learner: 'You ended the conversation. Get feedback on what you have so far.'
+};
+
+// Chat with the AI playing the scenario's recipient, graded as a whole once it ends.
+export const RolePlayView: React.FC<RolePlayViewProps> = ({ level, params, variables, prefetched, onComplete, onExit, onError, onSaveTerm }) => {
+  const [loading, setLoading] = useState(!prefetched);
+  const [scenario, setScenario] = useState<WritingScenario | null>(prefetched ?? null);
+  const [conversation, setConversation] = useState<RolePlayTurn[]>([]);
+  const [userInput, setUserInput] = useState('');
+  const [replying, setReplying] = useState(false);
+  const [ended, setEnded] = useState<EndReason | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [streamed, setStreamed] = useState<PartialWritingFeedback | null>(null);
+  const [feedback, setFeedback] = useState<WritingFeedback | null>(null);
+  // Aborts the pending reply or evaluation when the learner leaves the view
+  const pending = useRef<AbortController | null>(null);
+  const bottom = useRef<HTMLDivElement>(null);
+
+  const learnerTurns = getLearnerMessages(conversation).length;
+
+  useEffect(() => {
+    if (prefetched) return;
+    const controller = new AbortController();
+    generateWritingScenario(params, variables, controller.signal)
+      .then(data => {
+        if (controller.signal.aborted) return;
+        setScenario({ ...data, format: 'roleplay' });
+        setLoading(false);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        setLoading(false);
+        onError("Could not generate scenario.", err);
+      });
+    return () => controller.abort();
+  }, [params, variables, prefetched, onError]);
+
+  useEffect(() => () => pending.current?.abort(), []);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [conversation.length, replying, ended]);
+
+  const handleSend = async () => {
+    const text = userInput.trim();
+    if (!scenario || !text || replying || ended) return;
+    const sent: RolePlayTurn[] = [...conversation, { speaker: 'learner', text }];
+    const controller = new AbortController();
+    pending.current = controller;
+    setConversation(sent);
+    setUserInput('');
+    setReplying(true);
+
+    try {
+      const reply = await replyInRolePlay(params, scenario, sent, controller.signal);
+      setConversation([...sent, { speaker: 'partner', text: reply.message }]);
+      if (reply.goalMet) {
+        setEnded('goal');
+      } else if (learnerTurns + 1 >= MAX_ROLE_PLAY_TURNS) {
+        setEnded('limit');
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      // Take the message back so it can be sent again
+      setConversation(conversation);
+      setUserInput(text);
+      onError("Your colleague could not reply.", error);
+    } finally {
+      setReplying(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleEvaluate = async () => {
+    if (!scenario || learnerTurns === 0) return;
+    const controller = new AbortController();
+    pending.current = controller;
+    setEnded(prev => prev ?? 'learner');
+    setAnalyzing(true);
+    setStreamed({});
+
+    try {
+      setFeedback(await evaluateRolePlay(params, scenario, conversation, setStreamed, controller.signal));
+    } catch (error) {
+      if (!controller.signal.aborted) onError("AI analysis failed.", error);
+    } finally {
+      setAnalyzing(false);
+      setStreamed(null);
+    }
+  };
+
+  const handleFinish = () => {
+    if (scenario && feedback) {
+      onComplete(feedback.score, {
+        type: 'writing',
+        scenario,
+        userDraft: formatLearnerMessages(conversation),
+        feedback,
+        conversation
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <div className="w-10 h-10 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin mb-4"></div>
+        <p className="text-slate-500">Preparing a role-play for Level {level}...</p>
+      </div>
+    );
+  }
+
+  if (!scenario) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96 text-slate-500">
+        <p>Failed to load scenario.</p>
+        <Button onClick={onExit} variant="outline" className="mt-4">Return to Dashboard</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 md:p-6 animate-fade-in pb-20">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={onExit} className="text-slate-400 hover:text-slate-600">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-2xl font-bold text-slate-800">Role-Play</h2>
+        <span className="ml-auto text-sm text-slate-500">Message {Math.min(learnerTurns + 1, MAX_ROLE_PLAY_TURNS)} of {MAX_ROLE_PLAY_TURNS}</span>
+      </div>
+
+      <div className="grid md:grid-cols-5 gap-6 mb-6">
+        <div className="md:col-span-2">
+          <ScenarioCard scenario={scenario} onSaveTerm={onSaveTerm} />
+        </div>
+
+        {/* Chat */}
+        <div className="md:col-span-3 flex flex-col bg-slate-50 border border-slate-200 rounded-xl">
+          <div className="flex-1 p-4 overflow-y-auto" style={{ minHeight: '300px', maxHeight: '480px' }}>
+            {conversation.length === 0 ? (
+              <p className="text-sm text-slate-400 text-center mt-8">Start the conversation by replying to {scenario.recipientRole}.</p>
+            ) : (
+              <RolePlayConversation conversation={conversation} partner={scenario.recipientRole} feedback={feedback ?? undefined} onSaveTerm={onSaveTerm} />
+            )}
+            {replying && <p className="text-xs text-slate-400 mt-4 animate-pulse">{scenario.recipientRole} is typing...</p>}
+            <div ref={bottom} />
+          </div>
+
+          {ended ? (
+            <p className="px-4 py-3 border-t border-slate-200 text-sm text-green-700 bg-green-50 rounded-b-xl flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4 shrink-0" />
+              {END_MESSAGES[ended]}
+            </p>
+          ) : (
+            <div className="p-3 border-t border-slate-200 flex gap-2">
+              <textarea
+                value={userInput}
+                onChange={(e) => setUserInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                disabled={replying}
+                rows={2}
+                placeholder="Type your message (Enter to send, Shift+Enter for a new line)"
+                className="flex-1 p-2 rounded-lg border border-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 resize-none text-sm"
+              />
+              <Button variant="secondary" onClick={handleSend} disabled={replying || !userInput.trim()} title="Send">
+                <Send className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Feedback streaming in */}
+      {analyzing && streamed && <StreamingFeedback partial={streamed} />}
+
+      {/* Feedback Section */}
+      {feedback && (
+        <FeedbackPanel
+          feedback={feedback}
+          userDraft={formatLearnerMessages(conversation)}
+          actions={<Button onClick={handleFinish}>Complete Exercise</Button>}
+        />
+      )}
+
+      {/* Action Bar */}
+      {!feedback && (
+        <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-slate-200 shadow-lg flex justify-center">
+          <div className="w-full max-w-4xl flex justify-end">
+            <Button
+              onClick={handleEvaluate}
+              isLoading={analyzing}
+              disabled={learnerTurns === 0 || replying}
+              variant={ended ? 'secondary' : 'outline'}
+              className="w-full md:w-auto px-8"
+            >
+              <Flag className="w-4 h-4" />
+              {ended ? 'Get Feedback' : 'End Conversation & Get Feedback'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { WritingScenario, TermDefinition } from '../types';
+import { SelectableText } from './SelectableText';
+
+interface ScenarioCardProps {
+  scenario: WritingScenario;
+  onSaveTerm?: (definition: TermDefinition, context: string) => void;
+}
+
+export const ScenarioCard: React.FC<ScenarioCardProps> = ({ scenario, onSaveTerm }) => {
+  const isReview = scenario.format === 'review';
+  const isSpoken = scenario.format === 'spoken';
+  const isRolePlay = scenario.format === 'roleplay';
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-100 p-6 rounded-xl">
+      <h3 className="text-indigo-900 font-semibold mb-2">{isReview ? 'Pull Request' : 'Scenario'}</h3>
+      <SelectableText text={scenario.context} onSaveTerm={onSaveTerm} className="text-indigo-800 mb-4 text-sm whitespace-pre-wrap" />
+
+      <div className="space-y-3">
+        <div>
+          <span className="text-xs font-bold text-indigo-500 uppercase tracking-wide">Goal</span>
+          <p className="text-sm text-slate-700">{scenario.goal}</p>
+        </div>
+        <div>
+          <span className="text-xs font-bold text-indigo-500 uppercase tracking-wide">{isReview ? 'Author' : isSpoken ? 'Speaking To' : isRolePlay ? 'Chatting With' : 'Recipient'}</span>
+          <p className="text-sm text-slate-700">{scenario.recipientRole}</p>
+        </div>
+        <div>
+          <span className="text-xs font-bold text-indigo-500 uppercase tracking-wide">{isReview ? 'What to Look For' : isSpoken || isRolePlay ? 'Key Points to Mention' : 'Key Points to Include'}</span>
+          <ul className="list-disc list-inside text-sm text-slate-700 mt-1">
+            {scenario.keyPoints.map((kp, i) => (
+              <li key={i}>{kp}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { ScenarioPack } from '../types';
+import { Button } from './Button';
+import { parseScenarioPack, upsertPack, ScenarioPackError } from '../services/scenarioPacks';
+import { Logger } from '../services/logger';
+import { Package, Upload, Trash2 } from 'lucide-react';
+
+interface ScenarioPacksPanelProps {
+  packs: ScenarioPack[];
+  onChange: (packs: ScenarioPack[]) => void;
+}
+
+export const ScenarioPacksPanel: React.FC<ScenarioPacksPanelProps> = ({ packs, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<{ message: string; issues: string[] } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setImportError(null);
+    setMessage(null);
+    try {
+      const pack = parseScenarioPack(await file.text(), file.name);
+      const replaced = packs.some(p => p.id === pack.id);
+      onChange(upsertPack(packs, pack));
+      setMessage(`${replaced ? 'Updated' : 'Imported'} pack "${pack.name}".`);
+    } catch (err) {
+      Logger.error("Failed to import scenario pack", err);
+      setImportError({
+        message: err instanceof Error ? err.message : "Could not read the file.",
+        issues: err instanceof ScenarioPackError ? err.issues : []
+      });
+    }
+  };
+
+  const handleToggle = (id: string) => {
+    onChange(packs.map(p => (p.id === id ? { ...p, enabled: !p.enabled } : p)));
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(packs.filter(p => p.id !== id));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
+      <div className="flex justify-between items-start mb-4 gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-1 flex items-center gap-2">
+            <Package className="w-5 h-5 text-slate-400" />
+            Scenario Packs
+          </h3>
+          <p className="text-sm text-slate-500">
+            Add your team's own topics, situations, examples and glossary from a JSON or YAML file.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4" />
+          Import Pack
+        </Button>
+        <input ref={fileInputRef} type="file" accept=".json,.yaml,.yml" className="hidden" onChange={handleFileChange} />
+      </div>
+
+      {packs.length === 0 ? (
+        <p className="text-slate-400 text-sm italic">No packs imported. Built-in topics are always available.</p>
+      ) : (
+        <ul className="space-y-2">
+          {packs.map(pack => (
+            <li key={pack.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-50 border border-slate-100">
+              <input
+                type="checkbox"
+                checked={pack.enabled}
+                onChange={() => handleToggle(pack.id)}
+                className="w-4 h-4 accent-brand-600"
+                title={pack.enabled ? 'Disable pack' : 'Enable pack'}
+              />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-medium ${pack.enabled ? 'text-slate-800' : 'text-slate-400'}`}>{pack.name}</p>
+                <p className="text-xs text-slate-400 truncate">
+                  {pack.topics.length} topics · {pack.situations.length} situations · {pack.tones.length} tones · {pack.glossary.length} glossary terms
+                  {pack.description && ` — ${pack.description}`}
+                </p>
+              </div>
+              <button onClick={() => handleDelete(pack.id)} className="p-1 text-slate-300 hover:text-red-500" title="Remove pack">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {importError && (
+        <div className="mt-4 text-sm text-red-600 bg-red-50 border border-red-100 p-3 rounded-lg">
+          <p>{importError.message}</p>
+          {importError.issues.length > 0 && (
+            <ul className="mt-2 list-disc list-inside text-xs space-y-0.5">
+              {importError.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+      {message && (
+        <p className="mt-4 text-sm text-green-700 bg-green-50 border border-green-100 p-3 rounded-lg">{message}</p>
+      )}
+    </div>
+  );
+};
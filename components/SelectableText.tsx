@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TermDefinition } from '../types';
+import { defineTerm } from '../services/geminiService';
+import { isDefinableSelection, extractContext } from '../services/vocabulary';
+import { Logger } from '../services/logger';
+import { BookPlus, Check, Search, X } from 'lucide-react';
+
+interface SelectableTextProps {
+  text: string;
+  className?: string;
+  // Rendered in place of the raw text (e.g. with highlighting); `text` is still used for lookup context
+  children?: React.ReactNode;
+  // Without a save handler the text renders as plain, non-interactive content
+  onSaveTerm?: (definition: TermDefinition, context: string) => void;
+}
+
+interface Lookup {
+  term: string;
+  context: string;
+  top: number;
+  left: number;
+  status: 'idle' | 'loading' | 'ready' | 'saved' | 'error';
+  definition?: TermDefinition;
+}
+
+// Select (or double-click / long-press) a word or phrase to get a Japanese definition and save it to the notebook.
+export const SelectableText: React.FC<SelectableTextProps> = ({ text, className = '', children, onSaveTerm }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [lookup, setLookup] = useState<Lookup | null>(null);
+  // The lookup in flight; replaced by the next one and aborted on unmount
+  const pending = useRef<AbortController | null>(null);
+
+  useEffect(() => () => pending.current?.abort(), []);
+
+  if (!onSaveTerm) {
+    return <div className={className}>{children ?? text}</div>;
+  }
+
+  const handleSelection = () => {
+    const selection = window.getSelection();
+    const selected = selection?.toString().trim() ?? '';
+    const container = containerRef.current;
+    if (!selection || selection.rangeCount === 0 || !container || !container.contains(selection.anchorNode)) return;
+    if (!isDefinableSelection(selected)) return;
+
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    const box = container.getBoundingClientRect();
+    setLookup({
+      term: selected,
+      context: extractContext(text, selected),
+      top: rect.bottom - box.top + 6,
+      left: Math.max(0, Math.min(rect.left - box.left, box.width - 320)),
+      status: 'idle'
+    });
+  };
+
+  const handleDefine = async () => {
+    if (!lookup) return;
+    const { term, context } = lookup;
+    pending.current?.abort();
+    const controller = new AbortController();
+    pending.current = controller;
+    setLookup(prev => prev && { ...prev, status: 'loading' });
+    try {
+      const definition = await defineTerm(term, context, controller.signal);
+      setLookup(prev => prev && prev.term === term ? { ...prev, status: 'ready', definition } : prev);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      Logger.error("Failed to look up term", err);
+      setLookup(prev => prev && prev.term === term ? { ...prev, status: 'error' } : prev);
+    }
+  };
+
+  const handleSave = () => {
+    if (!lookup?.definition) return;
+    onSaveTerm(lookup.definition, lookup.context);
+    setLookup({ ...lookup, status: 'saved' });
+  };
+
+  return (
+    <div className="relative">
+      <div ref={containerRef} className={`${className} selection:bg-amber-200`} onMouseUp={handleSelection} onTouchEnd={handleSelection}>
+        {children ?? text}
+      </div>
+
+      {lookup && (
+        <div
+          className="absolute z-20 w-80 bg-white rounded-xl shadow-lg border border-slate-200 p-4 text-sm animate-fade-in font-sans"
+          style={{ top: lookup.top, left: lookup.left }}
+        >
+          <div className="flex justify-between items-start gap-2 mb-2">
+            <span className="font-mono font-semibold text-slate-900 break-words">{lookup.definition?.term ?? lookup.term}</span>
+            <button onClick={() => setLookup(null)} className="text-slate-300 hover:text-slate-500">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {lookup.status === 'idle' && (
+            <button onClick={handleDefine} className="flex items-center gap-2 text-brand-600 hover:text-brand-700 font-medium">
+              <Search className="w-4 h-4" />
+              Define
+            </button>
+          )}
+          {lookup.status === 'loading' && (
+            <div className="flex items-center gap-2 text-slate-500">
+              <span className="w-4 h-4 border-2 border-brand-200 border-t-brand-600 rounded-full animate-spin" />
+              Looking up...
+            </div>
+          )}
+          {lookup.status === 'error' && (
+            <p className="text-red-600">Could not look up this term. <button onClick={handleDefine} className="underline">Retry</button></p>
+          )}
+          {lookup.definition && (lookup.status === 'ready' || lookup.status === 'saved') && (
+            <div className="space-y-2">
+              <p className="text-slate-800">{lookup.definition.definition}</p>
+              <p className="text-slate-500 text-xs">{lookup.definition.usageNote}</p>
+              <p className="text-slate-600 italic bg-slate-50 p-2 rounded">{lookup.definition.example}</p>
+              {lookup.status === 'ready' ? (
+                <button onClick={handleSave} className="flex items-center gap-2 text-brand-600 hover:text-brand-700 font-medium pt-1">
+                  <BookPlus className="w-4 h-4" />
+                  Save to Notebook
+                </button>
+              ) : (
+                <p className="flex items-center gap-2 text-green-600 font-medium pt-1">
+                  <Check className="w-4 h-4" />
+                  Saved
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DictationError, DictationSession, isSpeechRecognitionSupported, startDictation } from '../services/speech';
+import { Mic, Square, RotateCcw, Keyboard, AlertTriangle } from 'lucide-react';
+
+interface SpeechRecorderProps {
+  value: string;
+  onChange: (text: string) => void;
+  onRecordingChange?: (recording: boolean) => void;
+  disabled?: boolean; // Shows the transcript read-only, e.g. for an earlier attempt
+}
+
+const DICTATION_MESSAGES: Record<DictationError, string> = {
+  'not-allowed': 'Microphone access was blocked. Allow it in the browser, or type what you would say.',
+  'no-microphone': 'No microphone was found. You can type what you would say instead.',
+  'network': 'Speech recognition needs a network connection in this browser. You can type what you would say instead.',
+  'unknown': 'Speech recognition stopped unexpectedly. You can record again or type instead.'
+};
+
+// Dictation input for speaking practice, falling back to a textarea where recognition is unavailable.
+export const SpeechRecorder: React.FC<SpeechRecorderProps> = ({ value, onChange, onRecordingChange, disabled }) => {
+  const [supported] = useState(isSpeechRecognitionSupported);
+  const [typing, setTyping] = useState(!supported);
+  const [recording, setRecording] = useState(false);
+  const [interim, setInterim] = useState('');
+  const [error, setError] = useState<DictationError | null>(null);
+  const session = useRef<DictationSession | null>(null);
+
+  useEffect(() => () => session.current?.cancel(), []);
+
+  useEffect(() => {
+    onRecordingChange?.(recording);
+  }, [recording, onRecordingChange]);
+
+  const finish = () => {
+    session.current = null;
+    setRecording(false);
+    setInterim('');
+  };
+
+  const handleStart = () => {
+    // A new recording continues after whatever was already said
+    const base = value.trim();
+    setError(null);
+    session.current = startDictation({
+      onText: (final, pending) => {
+        onChange([base, final].filter(Boolean).join(' '));
+        setInterim(pending);
+      },
+      onError: (dictationError) => {
+        finish();
+        setError(dictationError);
+        if (dictationError !== 'unknown') setTyping(true);
+      },
+      onEnd: finish
+    });
+    if (session.current) setRecording(true);
+  };
+
+  const handleStop = () => session.current?.stop();
+
+  if (typing && !disabled) {
+    return (
+      <div className="flex flex-col flex-1">
+        {(error || !supported) && (
+          <div className="mb-3 p-3 rounded-lg border border-amber-200 bg-amber-50 text-xs text-amber-800 flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span>{error ? DICTATION_MESSAGES[error] : 'This browser does not support speech recognition. Type what you would say out loud.'}</span>
+          </div>
+        )}
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Hey everyone, quick update from my side..."
+          className="flex-1 w-full p-4 rounded-xl border border-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 resize-none font-mono text-sm"
+          style={{ minHeight: '240px' }}
+        />
+        {supported && error !== 'not-allowed' && error !== 'no-microphone' && (
+          <button onClick={() => setTyping(false)} className="mt-2 self-start text-xs text-slate-500 hover:text-indigo-600 flex items-center gap-1">
+            <Mic className="w-3.5 h-3.5" /> Use the microphone
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col flex-1">
+      {!disabled && (
+        <div className="flex items-center gap-4 mb-3">
+          <button
+            onClick={recording ? handleStop : handleStart}
+            className={`w-14 h-14 shrink-0 rounded-full text-white shadow-sm flex items-center justify-center transition-colors ${
+              recording ? 'bg-red-500 hover:bg-red-600 animate-pulse' : 'bg-indigo-600 hover:bg-indigo-700'
+            }`}
+            title={recording ? 'Stop recording' : 'Start recording'}
+          >
+            {recording ? <Square className="w-5 h-5" /> : <Mic className="w-6 h-6" />}
+          </button>
+          <p className="flex-1 text-sm text-slate-500">
+            {recording ? 'Listening... press stop when you are done.' : value ? 'Press the microphone to keep talking.' : 'Press the microphone and give your answer out loud.'}
+          </p>
+          <button
+            onClick={() => onChange('')}
+            disabled={recording || !value}
+            className="text-slate-400 enabled:hover:text-slate-600 disabled:opacity-40"
+            title="Clear and start over"
+          >
+            <RotateCcw className="w-5 h-5" />
+          </button>
+        </div>
+      )}
+      {error && (
+        <p className="mb-3 text-xs text-amber-700 flex items-center gap-1">
+          <AlertTriangle className="w-3.5 h-3.5" /> {DICTATION_MESSAGES[error]}
+        </p>
+      )}
+      <div
+        className="flex-1 w-full p-4 rounded-xl border border-slate-300 bg-white font-mono text-sm text-slate-700 whitespace-pre-wrap"
+        style={{ minHeight: '240px' }}
+      >
+        {value}
+        {interim && <span className="text-slate-400"> {interim}</span>}
+        {!value && !interim && <span className="text-slate-400">Your words will appear here as you speak.</span>}
+      </div>
+      {!disabled && !recording && (
+        <button onClick={() => setTyping(true)} className="mt-2 self-start text-xs text-slate-500 hover:text-indigo-600 flex items-center gap-1">
+          <Keyboard className="w-3.5 h-3.5" /> Type or correct the transcript instead
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ReadingExercise, TermDefinition } from '../types';
+import { SelectableText } from './SelectableText';
+import { Voicemail, Users, EyeOff } from 'lucide-react';
+
+interface SpokenMessageCardProps {
+  exercise: Pick<ReadingExercise, 'subject' | 'sender' | 'body' | 'format'>;
+  showTranscript: boolean; // Hidden while the learner is still answering from the audio
+  className?: string;
+  onSaveTerm?: (definition: TermDefinition, context: string) => void;
+}
+
+// Header for a listening exercise, with the transcript of what was said once it may be revealed.
+export const SpokenMessageCard: React.FC<SpokenMessageCardProps> = ({ exercise, showTranscript, className = '', onSaveTerm }) => {
+  const Icon = exercise.format === 'meeting' ? Users : Voicemail;
+
+  return (
+    <div className={`bg-white rounded-xl shadow-sm border border-slate-200 ${className}`}>
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 rounded-t-xl flex items-center gap-3">
+        <Icon className="w-5 h-5 text-slate-400" />
+        <div className="flex-1">
+          <h3 className="font-semibold text-slate-800">{exercise.subject}</h3>
+          <p className="text-sm text-slate-500">Speaker: {exercise.sender}</p>
+        </div>
+      </div>
+      {showTranscript ? (
+        <SelectableText
+          text={exercise.body}
+          onSaveTerm={onSaveTerm}
+          className="p-6 md:p-8 font-mono text-sm md:text-base leading-relaxed text-slate-700 whitespace-pre-wrap"
+        />
+      ) : (
+        <p className="p-6 text-sm text-slate-400 flex items-center gap-2">
+          <EyeOff className="w-4 h-4" />
+          The transcript is hidden until you submit your answers.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React from 'react';
+import { ExerciseResult } from '../types';
+import { SkillType, ScorePoint, getScoreSeries, getAverageByTier, getStreaks, getWeakestTopics, getSubScoreTrends, toDayKey } from '../services/analytics';
+import { RUBRIC_DIMENSIONS } from '../services/rubric';
+import { BarChart3, Flame, Target, TrendingUp, TrendingDown } from 'lucide-react';
+
+interface StatsPanelProps {
+  history: ExerciseResult[];
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+const HEATMAP_DAYS = 28;
+const TREND_POINTS = 20;
+
+// All series share one time axis, so results from the same day line up across skills
+interface TimeAxis {
+  start: number;
+  end: number;
+}
+
+const toTimeAxis = (series: ScorePoint[][]): TimeAxis => {
+  const times = series.flat().map(p => new Date(p.date).getTime());
+  return { start: Math.min(...times), end: Math.max(...times) };
+};
+
+const toXY = (p: ScorePoint, axis: TimeAxis) => {
+  const span = axis.end - axis.start;
+  const t = span > 0 ? (new Date(p.date).getTime() - axis.start) / span : 0.5;
+  return {
+    x: CHART_PADDING + t * (CHART_WIDTH - CHART_PADDING * 2),
+    y: CHART_PADDING + (1 - p.score / 100) * (CHART_HEIGHT - CHART_PADDING * 2)
+  };
+};
+
+const toPolyline = (points: ScorePoint[], axis: TimeAxis): string =>
+  points.map(p => toXY(p, axis)).map(({ x, y }) => `${x},${y}`).join(' ');
+
+// Markers are zero-length round-capped lines rather than circles, so they stay round
+// while the chart stretches (preserveAspectRatio="none") and a single result is still visible.
+const ScoreSeries: React.FC<{ points: ScorePoint[]; axis: TimeAxis; className: string; dash?: string }> = ({ points, axis, className, dash }) => (
+  <g className={className}>
+    <polyline points={toPolyline(points, axis)} fill="none" strokeWidth={2.5} strokeDasharray={dash} vectorEffect="non-scaling-stroke" />
+    {points.map((p, i) => {
+      const { x, y } = toXY(p, axis);
+      return <line key={i} x1={x} y1={y} x2={x} y2={y} strokeWidth={6} strokeLinecap="round" vectorEffect="non-scaling-stroke" />;
+    })}
+  </g>
+);
+
+const SKILL_DOT: Record<SkillType, string> = {
+  reading: 'bg-blue-500',
+  writing: 'bg-indigo-500',
+  listening: 'bg-teal-500'
+};
+
+const ScoreTrendChart: React.FC<{ reading: ScorePoint[]; writing: ScorePoint[]; listening: ScorePoint[] }> = ({ reading, writing, listening }) => {
+  const axis = toTimeAxis([reading, writing, listening]);
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40" preserveAspectRatio="none">
+      {[0, 50, 100].map(line => {
+        const y = CHART_PADDING + (1 - line / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+        return <line key={line} x1={0} x2={CHART_WIDTH} y1={y} y2={y} className="stroke-slate-100" strokeWidth={1} />;
+      })}
+      <ScoreSeries points={reading} axis={axis} className="stroke-blue-500" />
+      <ScoreSeries points={writing} axis={axis} className="stroke-indigo-500" dash="6 4" />
+      <ScoreSeries points={listening} axis={axis} className="stroke-teal-500" dash="2 3" />
+    </svg>
+  );
+};
+
+const AverageBar: React.FC<{ value: number | null; color: string }> = ({ value, color }) => (
+  <div className="flex items-center gap-2">
+    <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+      <div className={`h-full ${color}`} style={{ width: `${value ?? 0}%` }} />
+    </div>
+    <span className="w-8 text-right text-xs text-slate-500">{value ?? '—'}</span>
+  </div>
+);
+
+export const StatsPanel: React.FC<StatsPanelProps> = ({ history }) => {
+  const reading = getScoreSeries(history, 'reading').slice(-TREND_POINTS);
+  const writing = getScoreSeries(history, 'writing').slice(-TREND_POINTS);
+  const listening = getScoreSeries(history, 'listening').slice(-TREND_POINTS);
+  const tiers = getAverageByTier(history);
+  const streaks = getStreaks(history);
+  const weakest = getWeakestTopics(history);
+  const subScoreTrends = getSubScoreTrends(history, RUBRIC_DIMENSIONS.map(d => d.key));
+  const hasSubScores = subScoreTrends.some(t => t.recent !== null);
+
+  const today = new Date();
+  const heatmapDays = Array.from({ length: HEATMAP_DAYS }, (_, i) =>
+    toDayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (HEATMAP_DAYS - 1 - i)))
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6 space-y-8">
+      <h3 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+        <BarChart3 className="w-5 h-5 text-slate-400" />
+        Your Stats
+      </h3>
+
+      {/* Score Trend */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h4 className="text-sm font-medium text-slate-700">Score Trend (last {TREND_POINTS})</h4>
+          <div className="flex gap-4 text-xs text-slate-500">
+            <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-blue-500" /> Reading</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-indigo-500" /> Writing</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-teal-500" /> Listening</span>
+          </div>
+        </div>
+        <ScoreTrendChart reading={reading} writing={writing} listening={listening} />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        {/* Average by Tier */}
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 mb-3">Average Score by Tier</h4>
+          <div className="space-y-4">
+            {tiers.map(t => (
+              <div key={t.tier}>
+                <p className="text-xs text-slate-500 mb-1">{t.tier}</p>
+                <AverageBar value={t.reading} color="bg-blue-500" />
+                <AverageBar value={t.writing} color="bg-indigo-500" />
+                <AverageBar value={t.listening} color="bg-teal-500" />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Streaks */}
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 mb-3 flex items-center gap-2">
+            <Flame className="w-4 h-4 text-orange-500" />
+            Practice Streak
+          </h4>
+          <div className="flex gap-6 mb-4">
+            <div>
+              <p className="text-2xl font-bold text-slate-900">{streaks.current}</p>
+              <p className="text-xs text-slate-500">Current (days)</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-slate-900">{streaks.longest}</p>
+              <p className="text-xs text-slate-500">Longest (days)</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-7 gap-1 w-fit">
+            {heatmapDays.map(day => (
+              <div
+                key={day}
+                title={day}
+                className={`w-5 h-5 rounded ${streaks.activeDays.has(day) ? 'bg-green-500' : 'bg-slate-100'}`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Writing Sub-scores */}
+      {hasSubScores && (
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 mb-3">Writing Skill Breakdown (last 5 vs. previous 5)</h4>
+          <div className="space-y-2">
+            {subScoreTrends.map(t => {
+              const label = RUBRIC_DIMENSIONS.find(d => d.key === t.dimension)?.label ?? t.dimension;
+              const delta = t.recent !== null && t.previous !== null ? t.recent - t.previous : null;
+              return (
+                <div key={t.dimension} className="grid grid-cols-[9rem_1fr_4rem] items-center gap-3 text-xs">
+                  <span className="text-slate-500">{label}</span>
+                  <AverageBar value={t.recent} color="bg-indigo-500" />
+                  <span className={`flex items-center gap-1 ${delta === null ? 'text-slate-300' : delta >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                    {delta !== null && (delta >= 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />)}
+                    {delta === null ? '—' : `${delta > 0 ? '+' : ''}${delta}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Weakest Topics */}
+      <div>
+        <h4 className="text-sm font-medium text-slate-700 mb-3 flex items-center gap-2">
+          <Target className="w-4 h-4 text-red-500" />
+          Weakest Topics
+        </h4>
+        {weakest.length === 0 ? (
+          <p className="text-slate-400 text-sm italic">Complete a few more exercises to see which topics need work.</p>
+        ) : (
+          <ul className="space-y-2">
+            {weakest.map(t => (
+              <li key={`${t.type}:${t.topic}`} className="flex justify-between items-center text-sm p-3 rounded-lg bg-slate-50 border border-slate-100">
+                <div className="flex items-center gap-3">
+                  <div className={`w-2 h-2 rounded-full ${SKILL_DOT[t.type]}`} />
+                  <span className="text-slate-700">{t.topic}</span>
+                  <span className="text-xs text-slate-400">{t.attempts} attempt{t.attempts > 1 ? 's' : ''}</span>
+                </div>
+                <span className="font-bold text-slate-600">{t.average}/100</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { PartialWritingFeedback } from '../types';
+import { CheckCircle2 } from 'lucide-react';
+
+interface StreamingFeedbackProps {
+  partial: PartialWritingFeedback;
+  review?: boolean; // Code review feedback streams a model review instead of a rewrite
+}
+
+const Placeholder: React.FC = () => (
+  <div className="space-y-2 animate-pulse">
+    <div className="h-3 bg-slate-100 rounded w-11/12" />
+    <div className="h-3 bg-slate-100 rounded w-3/4" />
+  </div>
+);
+
+const Caret: React.FC = () => <span className="inline-block w-1.5 h-4 bg-indigo-400 align-text-bottom ml-0.5 animate-pulse" />;
+
+// Shown while an evaluation streams in. The score and rubric only appear once the complete
+// response has been validated and the regular FeedbackPanel takes over.
+export const StreamingFeedback: React.FC<StreamingFeedbackProps> = ({ partial, review = false }) => {
+  const writingImproved = partial.improvedVersion !== undefined;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden mb-8 animate-fade-in-up">
+      <div className="bg-slate-900 text-white px-6 py-4 flex justify-between items-center">
+        <h3 className="font-bold text-lg">AI Analysis</h3>
+        <span className="flex items-center gap-2 text-slate-400 text-sm">
+          <span className="w-4 h-4 border-2 border-slate-600 border-t-white rounded-full animate-spin" />
+          Grading...
+        </span>
+      </div>
+      <div className="p-6 space-y-6">
+        <div>
+          <h4 className="font-semibold text-slate-900 mb-2">Critique</h4>
+          {partial.critique ? (
+            <p className="text-sm text-slate-600 leading-relaxed whitespace-pre-wrap">
+              {partial.critique}
+              {!writingImproved && <Caret />}
+            </p>
+          ) : <Placeholder />}
+        </div>
+        <div>
+          <h4 className="font-semibold text-slate-900 mb-2 flex items-center gap-2">
+            <CheckCircle2 className="w-5 h-5 text-indigo-600" />
+            {review ? 'Model Review' : 'Native Engineer Version'}
+          </h4>
+          {partial.improvedVersion ? (
+            <div className="bg-indigo-50 p-4 rounded-lg text-indigo-900 text-sm font-medium border border-indigo-100 whitespace-pre-wrap">
+              {partial.improvedVersion}
+              <Caret />
+            </div>
+          ) : <Placeholder />}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { ReadingExercise } from '../types';
+import { BookMarked, MessageSquareText } from 'lucide-react';
+
+interface StudyAidsProps {
+  exercise: ReadingExercise;
+  className?: string;
+}
+
+// Vocabulary list and plain-English paraphrase attached to exercises built from the learner's own text.
+export const StudyAids: React.FC<StudyAidsProps> = ({ exercise, className = '' }) => {
+  if (!exercise.vocabulary?.length && !exercise.paraphrase) return null;
+
+  return (
+    <div className={`grid md:grid-cols-2 gap-6 ${className}`}>
+      {exercise.vocabulary && exercise.vocabulary.length > 0 && (
+        <div className="bg-white rounded-xl border border-slate-200 p-5">
+          <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center gap-2">
+            <BookMarked className="w-4 h-4 text-blue-500" />
+            Vocabulary
+          </h4>
+          <dl className="space-y-2 text-sm">
+            {exercise.vocabulary.map(item => (
+              <div key={item.term}>
+                <dt className="font-mono font-medium text-slate-800">{item.term}</dt>
+                <dd className="text-slate-500">{item.meaning}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+      {exercise.paraphrase && (
+        <div className="bg-white rounded-xl border border-slate-200 p-5">
+          <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center gap-2">
+            <MessageSquareText className="w-4 h-4 text-green-500" />
+            In Plain English
+          </h4>
+          <p className="text-sm text-slate-700 leading-relaxed">{exercise.paraphrase}</p>
+        </div>
+      )}
+    </div>
+  );
+};
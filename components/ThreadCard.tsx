@@ -0,0 +1,78 @@
+import React from 'react';
+import { ReadingExercise, TermDefinition, ThreadMessage } from '../types';
+import { SelectableText } from './SelectableText';
+import { splitMentions } from '../services/threads';
+import { Hash } from 'lucide-react';
+
+interface ThreadCardProps {
+  exercise: Pick<ReadingExercise, 'subject' | 'messages'>;
+  className?: string;
+  onSaveTerm?: (definition: TermDefinition, context: string) => void;
+}
+
+const AVATAR_COLORS = ['bg-blue-500', 'bg-indigo-500', 'bg-emerald-500', 'bg-amber-500', 'bg-rose-500', 'bg-cyan-600'];
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+const MessageText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {splitMentions(text).map((part, i) => (part.mention
+      ? <span key={i} className="bg-blue-50 text-blue-700 rounded px-0.5 font-medium">{part.text}</span>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>))}
+  </>
+);
+
+export const ThreadCard: React.FC<ThreadCardProps> = ({ exercise, className = '', onSaveTerm }) => {
+  const messages: ThreadMessage[] = exercise.messages ?? [];
+  // Same author keeps the same avatar colour throughout the thread
+  const authors = Array.from(new Set(messages.map(m => m.author)));
+
+  return (
+    <div className={`bg-white rounded-xl shadow-sm border border-slate-200 ${className}`}>
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 rounded-t-xl flex items-center gap-2">
+        <Hash className="w-5 h-5 text-slate-400" />
+        <h3 className="font-semibold text-slate-800">{exercise.subject.replace(/^#/, '')}</h3>
+        <span className="text-sm text-slate-400 ml-auto">{messages.length} messages</span>
+      </div>
+      <ol className="p-4 md:p-6 space-y-5">
+        {messages.map((message, i) => (
+          <li key={i} className="flex gap-3">
+            <div
+              className={`w-9 h-9 shrink-0 rounded-lg text-white text-sm font-bold flex items-center justify-center ${AVATAR_COLORS[authors.indexOf(message.author) % AVATAR_COLORS.length]}`}
+              aria-hidden
+            >
+              {initials(message.author)}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm">
+                <span className="font-semibold text-slate-900">{message.author}</span>
+                <span className="text-slate-400 ml-2">{message.role}</span>
+                <span className="text-xs text-slate-400 ml-2">{message.timestamp}</span>
+              </p>
+              <SelectableText
+                text={message.text}
+                onSaveTerm={onSaveTerm}
+                className="text-sm md:text-base leading-relaxed text-slate-700 whitespace-pre-wrap"
+              >
+                <MessageText text={message.text} />
+              </SelectableText>
+              {message.code && (
+                <pre className="mt-2 bg-slate-900 text-slate-100 text-xs rounded-lg p-3 overflow-x-auto">{message.code}</pre>
+              )}
+              {message.reactions && message.reactions.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {message.reactions.map((reaction, r) => (
+                    <span key={r} className="text-xs bg-slate-50 border border-slate-200 rounded-full px-2 py-0.5 text-slate-600">
+                      {reaction.emoji} {reaction.count}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { VocabularyEntry } from '../types';
+import { QuizQuestion, buildQuiz, searchVocabulary, maskTerm } from '../services/vocabulary';
+import { Button } from './Button';
+import { ArrowLeft, BookMarked, Search, Trash2, GraduationCap, CheckCircle2, XCircle } from 'lucide-react';
+
+interface VocabularyViewProps {
+  notebook: VocabularyEntry[];
+  onQuizResult: (entryId: string, correct: boolean) => void;
+  onDelete: (entryId: string) => void;
+  onExit: () => void;
+}
+
+const QUIZ_LENGTH = 10;
+
+const VocabularyQuiz: React.FC<{
+  notebook: VocabularyEntry[];
+  onQuizResult: (entryId: string, correct: boolean) => void;
+  onDone: () => void;
+}> = ({ notebook, onQuizResult, onDone }) => {
+  // Built once per session so recorded results don't reshuffle the questions
+  const [questions] = useState<QuizQuestion[]>(() => buildQuiz(notebook, QUIZ_LENGTH));
+  const [index, setIndex] = useState(0);
+  const [picked, setPicked] = useState<string | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  const question = questions[index];
+
+  const handlePick = (term: string) => {
+    if (!question || picked) return;
+    const correct = term === question.entry.term;
+    setPicked(term);
+    if (correct) setCorrectCount(c => c + 1);
+    onQuizResult(question.entry.id, correct);
+  };
+
+  const handleNext = () => {
+    setPicked(null);
+    setIndex(i => i + 1);
+  };
+
+  if (!question) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-10 text-center">
+        <CheckCircle2 className="w-10 h-10 text-green-500 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold text-slate-900 mb-2">Quiz complete</h3>
+        <p className="text-slate-500 text-sm mb-6">{correctCount} / {questions.length} correct</p>
+        <Button onClick={onDone} variant="outline" className="mx-auto">Back to Notebook</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-100 flex justify-between text-sm text-slate-500">
+        <span>Which term matches this meaning?</span>
+        <span>{index + 1} / {questions.length}</span>
+      </div>
+      <div className="p-6 md:p-8 space-y-6">
+        <div>
+          <p className="text-lg font-medium text-slate-900">{question.entry.definition}</p>
+          {question.entry.context && (
+            <p className="text-sm text-slate-400 mt-2">Seen in: "{maskTerm(question.entry.context, question.entry.term)}"</p>
+          )}
+        </div>
+        <div className="grid md:grid-cols-2 gap-3">
+          {question.options.map(option => {
+            const isAnswer = option === question.entry.term;
+            const style = !picked
+              ? 'border-slate-200 hover:border-brand-400'
+              : isAnswer
+                ? 'border-green-500 bg-green-50 text-green-800'
+                : option === picked
+                  ? 'border-red-300 bg-red-50 text-red-700'
+                  : 'border-slate-100 text-slate-400';
+            return (
+              <button
+                key={option}
+                onClick={() => handlePick(option)}
+                disabled={!!picked}
+                className={`p-4 rounded-lg border-2 text-left font-mono text-sm transition-colors ${style}`}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+        {picked && (
+          <div className="space-y-3 animate-fade-in">
+            <p className={`flex items-center gap-2 font-medium ${picked === question.entry.term ? 'text-green-600' : 'text-red-600'}`}>
+              {picked === question.entry.term ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+              {picked === question.entry.term ? 'Correct!' : `The answer is "${question.entry.term}".`}
+            </p>
+            <p className="text-sm text-slate-600 italic bg-slate-50 p-3 rounded-lg">{question.entry.example}</p>
+            <Button onClick={handleNext} className="w-full">Next</Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const VocabularyView: React.FC<VocabularyViewProps> = ({ notebook, onQuizResult, onDelete, onExit }) => {
+  const [query, setQuery] = useState('');
+  const [quizzing, setQuizzing] = useState(false);
+
+  const entries = searchVocabulary(notebook, query);
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 md:p-6 animate-fade-in pb-20">
+      <div className="flex items-center gap-4 mb-6">
+        <button onClick={onExit} className="text-slate-400 hover:text-slate-600">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h2 className="text-2xl font-bold text-slate-800">Vocabulary Notebook</h2>
+        {!quizzing && (
+          <Button variant="outline" onClick={() => setQuizzing(true)} disabled={notebook.length < 2} className="ml-auto">
+            <GraduationCap className="w-4 h-4" />
+            Quiz Me
+          </Button>
+        )}
+      </div>
+
+      {quizzing ? (
+        <VocabularyQuiz notebook={notebook} onQuizResult={onQuizResult} onDone={() => setQuizzing(false)} />
+      ) : (
+        <>
+          <div className="relative mb-6">
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search terms, meanings or examples"
+              className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+            />
+          </div>
+
+          {notebook.length === 0 ? (
+            <div className="bg-white rounded-xl border border-slate-200 p-10 text-center text-slate-500">
+              <BookMarked className="w-10 h-10 text-slate-300 mx-auto mb-4" />
+              <p>Select any word or phrase in a reading email or writing scenario to look it up and save it here.</p>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-slate-400 text-sm italic text-center">No entries match "{query}".</p>
+          ) : (
+            <ul className="space-y-3">
+              {entries.map(entry => (
+                <li key={entry.id} className="bg-white rounded-xl border border-slate-200 p-5">
+                  <div className="flex justify-between items-start gap-4 mb-2">
+                    <span className="font-mono font-semibold text-slate-900">{entry.term}</span>
+                    <div className="flex items-center gap-3">
+                      {entry.quizAttempts > 0 && (
+                        <span className="text-xs text-slate-400">{entry.quizCorrect}/{entry.quizAttempts} in quizzes</span>
+                      )}
+                      <button onClick={() => onDelete(entry.id)} className="text-slate-300 hover:text-red-500" title="Remove from notebook">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-sm text-slate-800">{entry.definition}</p>
+                  <p className="text-xs text-slate-500 mt-1">{entry.usageNote}</p>
+                  <p className="text-sm text-slate-600 italic bg-slate-50 p-2 rounded mt-3">{entry.example}</p>
+                  {entry.context && (
+                    <p className="text-xs text-slate-400 mt-2">Saved from: "{entry.context}"</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,60 +1,128 @@
-import React, { useState, useEffect } from 'react';
-import { generateWritingScenario, evaluateWriting } from '../services/geminiService';
-import { WritingScenario, WritingFeedback } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { generateWritingScenario, evaluateWriting, evaluateSpeaking, generateReviewScenario, evaluateReview } from '../services/geminiService';
+import { formatReviewComments } from '../services/codeReview';
+import { WritingScenario, WritingRevision, WritingTranscript, GenerationParams, ScenarioVariables, TermDefinition, WritingFormat, ReviewComment, PartialWritingFeedback } from '../types';
 import { Button } from './Button';
-import { ArrowLeft, Send, CheckCircle2, AlertCircle } from 'lucide-react';
+import { ScenarioCard } from './ScenarioCard';
+import { FeedbackPanel } from './FeedbackPanel';
+import { RevisionTimeline } from './RevisionTimeline';
+import { ReviewDiff } from './ReviewDiff';
+import { StreamingFeedback } from './StreamingFeedback';
+import { SpeechRecorder } from './SpeechRecorder';
+import { ArrowLeft, Send, PenLine, Mic } from 'lucide-react';
 
 interface WritingViewProps {
   level: number;
-  onComplete: (score: number) => void;
+  params: GenerationParams;
+  variables: ScenarioVariables;
+  format: WritingFormat;
+  prefetched?: WritingScenario; // Ready-made scenario from the prefetch queue; skips generation
+  onComplete: (score: number, transcript: WritingTranscript) => void;
   onExit: () => void;
-  onError: (msg: string) => void;
+  onError: (message: string, error?: unknown) => void;
+  onSaveTerm: (definition: TermDefinition, context: string) => void;
 }
 
-export const WritingView: React.FC<WritingViewProps> = ({ level, onComplete, onExit, onError }) => {
-  const [loading, setLoading] = useState(true);
+// Attempts allowed per scenario, including the first submission
+const MAX_ATTEMPTS = 5;
+
+export const WritingView: React.FC<WritingViewProps> = ({ level, params, variables, format, prefetched, onComplete, onExit, onError, onSaveTerm }) => {
+  const [loading, setLoading] = useState(!prefetched);
   const [analyzing, setAnalyzing] = useState(false);
-  const [scenario, setScenario] = useState<WritingScenario | null>(null);
+  const [scenario, setScenario] = useState<WritingScenario | null>(prefetched ?? null);
   const [userInput, setUserInput] = useState('');
-  const [feedback, setFeedback] = useState<WritingFeedback | null>(null);
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [revisions, setRevisions] = useState<WritingRevision[]>([]);
+  const [selectedRevision, setSelectedRevision] = useState(0);
+  const [revising, setRevising] = useState(false);
+  const [streamed, setStreamed] = useState<PartialWritingFeedback | null>(null);
+  const [recording, setRecording] = useState(false);
+  // Aborts an in-flight evaluation when the learner leaves the view
+  const evaluation = useRef<AbortController | null>(null);
+
+  const latest = revisions.length > 0 ? revisions[revisions.length - 1] : null;
+  const displayed = revisions[selectedRevision] ?? null;
+  const editable = !latest || revising;
+  // Code review scenarios carry a diff; everything else is a prose message
+  const diff = scenario?.format === 'review' ? scenario.diff : undefined;
+  // Speaking scenarios are ordinary writing scenarios answered out loud
+  const spoken = scenario?.format === 'spoken';
 
   useEffect(() => {
-    let mounted = true;
-    generateWritingScenario(level)
+    if (prefetched) return;
+    const controller = new AbortController();
+    const request = format === 'review'
+      ? generateReviewScenario(params, variables, controller.signal)
+      : generateWritingScenario(params, variables, controller.signal);
+    request
       .then(data => {
-        if (mounted) {
-          setScenario(data);
-          setLoading(false);
-        }
+        if (controller.signal.aborted) return;
+        setScenario(format === 'spoken' ? { ...data, format } : data);
+        setLoading(false);
       })
       .catch(err => {
-        if (mounted) {
-            setLoading(false);
-            const msg = err instanceof Error ? err.message : "Failed to load scenario.";
-            onError(`Could not generate scenario: ${msg}`);
-        }
+        if (controller.signal.aborted) return;
+        setLoading(false);
+        onError("Could not generate scenario.", err);
       });
-    return () => { mounted = false; };
-  }, [level, onError]);
+    return () => controller.abort();
+  }, [params, variables, format, prefetched, onError]);
+
+  useEffect(() => () => evaluation.current?.abort(), []);
 
   const handleSubmit = async () => {
-    if (!scenario || !userInput.trim()) return;
+    if (!scenario || (diff ? comments.length === 0 : !userInput.trim())) return;
+    const controller = new AbortController();
+    evaluation.current = controller;
     setAnalyzing(true);
-    
+    setStreamed({});
+
     try {
-        const result = await evaluateWriting(level, scenario, userInput);
-        setFeedback(result);
+        if (diff) {
+          const result = await evaluateReview(params, scenario, comments, setStreamed, controller.signal);
+          const draft = formatReviewComments(diff, comments);
+          setRevisions(prev => [...prev, { draft, comments, feedback: result, submittedAt: new Date().toISOString() }]);
+        } else {
+          const evaluate = spoken ? evaluateSpeaking : evaluateWriting;
+          const result = await evaluate(params, scenario, userInput, setStreamed, controller.signal);
+          setRevisions(prev => [...prev, { draft: userInput, feedback: result, submittedAt: new Date().toISOString() }]);
+        }
+        setSelectedRevision(revisions.length);
+        setRevising(false);
     } catch (error) {
-        const msg = error instanceof Error ? error.message : "Evaluation failed.";
-        onError(`AI Analysis Error: ${msg}`);
+        if (!controller.signal.aborted) onError("AI analysis failed.", error);
     } finally {
         setAnalyzing(false);
+        setStreamed(null);
     }
   };
 
+  const handleRevise = () => {
+    if (!latest) return;
+    // Always revise from the most recent draft, even if an older attempt is on screen.
+    // A spoken answer is given again from the start rather than edited.
+    setUserInput(spoken ? '' : latest.draft);
+    setComments(latest.comments ?? []);
+    setRevising(true);
+  };
+
+  const handleCancelRevision = () => {
+    if (!latest) return;
+    setUserInput(latest.draft);
+    setComments(latest.comments ?? []);
+    setRevising(false);
+  };
+
   const handleFinish = () => {
-    if (feedback) {
-        onComplete(feedback.score);
+    if (latest && scenario) {
+        onComplete(latest.feedback.score, {
+          type: 'writing',
+          scenario,
+          userDraft: latest.draft,
+          feedback: latest.feedback,
+          comments: latest.comments,
+          revisions
+        });
     }
   };
 
@@ -62,7 +130,11 @@ export const WritingView: React.FC<WritingViewProps> = ({ level, onComplete, onE
     return (
       <div className="flex flex-col items-center justify-center h-96">
         <div className="w-10 h-10 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin mb-4"></div>
-        <p className="text-slate-500">Preparing unique scenario for Level {level}...</p>
+        <p className="text-slate-500">
+          {format === 'review'
+            ? `Preparing a pull request to review for Level ${level}...`
+            : format === 'spoken' ? `Preparing a speaking scenario for Level ${level}...` : `Preparing unique scenario for Level ${level}...`}
+        </p>
       </div>
     );
   }
@@ -82,112 +154,108 @@ export const WritingView: React.FC<WritingViewProps> = ({ level, onComplete, onE
         <button onClick={onExit} className="text-slate-400 hover:text-slate-600">
           <ArrowLeft className="w-6 h-6" />
         </button>
-        <h2 className="text-2xl font-bold text-slate-800">Writing Task</h2>
+        <h2 className="text-2xl font-bold text-slate-800">{diff ? 'Code Review Task' : spoken ? 'Speaking Task' : 'Writing Task'}</h2>
       </div>
 
-      <div className="grid md:grid-cols-2 gap-6 mb-6">
-        {/* Context Card */}
-        <div className="bg-indigo-50 border border-indigo-100 p-6 rounded-xl">
-            <h3 className="text-indigo-900 font-semibold mb-2">Scenario</h3>
-            <p className="text-indigo-800 mb-4 text-sm">{scenario.context}</p>
-            
-            <div className="space-y-3">
-                <div>
-                    <span className="text-xs font-bold text-indigo-500 uppercase tracking-wide">Goal</span>
-                    <p className="text-sm text-slate-700">{scenario.goal}</p>
-                </div>
-                <div>
-                    <span className="text-xs font-bold text-indigo-500 uppercase tracking-wide">Recipient</span>
-                    <p className="text-sm text-slate-700">{scenario.recipientRole}</p>
-                </div>
-                <div>
-                    <span className="text-xs font-bold text-indigo-500 uppercase tracking-wide">Key Points to Include</span>
-                    <ul className="list-disc list-inside text-sm text-slate-700 mt-1">
-                        {scenario.keyPoints.map((kp, i) => (
-                            <li key={i}>{kp}</li>
-                        ))}
-                    </ul>
-                </div>
-            </div>
+      {diff ? (
+        <div className="space-y-6 mb-6">
+          {/* Pull request description above the diff, which needs the full width */}
+          <ScenarioCard scenario={scenario} onSaveTerm={onSaveTerm} />
+          <ReviewDiff
+            diff={diff}
+            comments={editable ? comments : displayed?.comments ?? []}
+            feedback={editable ? undefined : displayed?.feedback}
+            plantedIssues={editable ? undefined : scenario.plantedIssues}
+            onChange={editable ? setComments : undefined}
+          />
         </div>
+      ) : spoken ? (
+        <div className="grid md:grid-cols-2 gap-6 mb-6">
+          <ScenarioCard scenario={scenario} onSaveTerm={onSaveTerm} />
 
-        {/* Writing Area */}
-        <div className="flex flex-col">
-            <label className="block text-sm font-medium text-slate-700 mb-2">Your Draft</label>
-            <textarea
-                value={userInput}
-                onChange={(e) => setUserInput(e.target.value)}
-                disabled={!!feedback}
-                placeholder="Hi Team, I wanted to discuss..."
-                className="flex-1 w-full p-4 rounded-xl border border-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 resize-none font-mono text-sm"
-                style={{ minHeight: '300px' }}
-            />
+          {/* Speaking Area */}
+          <div className="flex flex-col">
+              <label className="text-sm font-medium text-slate-700 mb-2 flex items-center gap-2">
+                  <Mic className="w-4 h-4 text-slate-400" />
+                  {revising ? `Your Answer (Attempt ${revisions.length + 1})` : 'Your Answer'}
+              </label>
+              <SpeechRecorder
+                  value={editable ? userInput : displayed?.draft ?? userInput}
+                  onChange={setUserInput}
+                  onRecordingChange={setRecording}
+                  disabled={!editable}
+              />
+          </div>
         </div>
-      </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6 mb-6">
+          {/* Context Card */}
+          <ScenarioCard scenario={scenario} onSaveTerm={onSaveTerm} />
 
-      {/* Feedback Section */}
-      {feedback && (
-        <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden mb-8 animate-fade-in-up">
-            <div className="bg-slate-900 text-white px-6 py-4 flex justify-between items-center">
-                <h3 className="font-bold text-lg">AI Analysis</h3>
-                <div className="flex items-center gap-2">
-                    <span className="text-slate-400 text-sm">Score:</span>
-                    <span className={`text-xl font-bold ${feedback.score >= 80 ? 'text-green-400' : 'text-yellow-400'}`}>{feedback.score}/100</span>
-                </div>
-            </div>
-            
-            <div className="p-6 space-y-6">
-                <div>
-                    <h4 className="font-semibold text-slate-900 mb-2 flex items-center gap-2">
-                        <CheckCircle2 className="w-5 h-5 text-indigo-600" />
-                        Native Engineer Version
-                    </h4>
-                    <div className="bg-indigo-50 p-4 rounded-lg text-indigo-900 text-sm font-medium border border-indigo-100">
-                        {feedback.improvedVersion}
-                    </div>
-                </div>
-
-                <div className="grid md:grid-cols-2 gap-6">
-                    <div>
-                        <h4 className="font-semibold text-slate-900 mb-2">Critique</h4>
-                        <p className="text-sm text-slate-600 leading-relaxed">{feedback.critique}</p>
-                    </div>
-                    <div>
-                        <h4 className="font-semibold text-slate-900 mb-2 flex items-center gap-2">
-                            <AlertCircle className="w-5 h-5 text-amber-500" />
-                            Key Corrections
-                        </h4>
-                        {feedback.grammarMistakes.length > 0 ? (
-                            <ul className="list-disc list-inside text-sm text-slate-600 space-y-1">
-                                {feedback.grammarMistakes.map((mistake, i) => (
-                                    <li key={i}>{mistake}</li>
-                                ))}
-                            </ul>
-                        ) : (
-                            <p className="text-sm text-green-600">Great job! No major grammar errors found.</p>
-                        )}
-                    </div>
-                </div>
-            </div>
-            <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end">
-                <Button onClick={handleFinish}>Complete Exercise</Button>
-            </div>
+          {/* Writing Area */}
+          <div className="flex flex-col">
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                  {revising ? `Your Draft (Revision ${revisions.length + 1})` : 'Your Draft'}
+              </label>
+              <textarea
+                  value={editable ? userInput : displayed?.draft ?? userInput}
+                  onChange={(e) => setUserInput(e.target.value)}
+                  disabled={!editable}
+                  placeholder="Hi Team, I wanted to discuss..."
+                  className="flex-1 w-full p-4 rounded-xl border border-slate-300 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 resize-none font-mono text-sm"
+                  style={{ minHeight: '300px' }}
+              />
+          </div>
         </div>
       )}
 
-      {/* Action Bar (Only visible before feedback) */}
-      {!feedback && (
+      {/* Revision Timeline */}
+      {revisions.length > 1 && (
+        <RevisionTimeline revisions={revisions} selected={selectedRevision} onSelect={setSelectedRevision} />
+      )}
+
+      {/* Feedback streaming in */}
+      {analyzing && streamed && <StreamingFeedback partial={streamed} review={!!diff} />}
+
+      {/* Feedback Section */}
+      {displayed && !revising && (
+        <FeedbackPanel
+          feedback={displayed.feedback}
+          userDraft={diff ? undefined : displayed.draft}
+          actions={
+            <>
+              {revisions.length < MAX_ATTEMPTS && (
+                <Button variant="outline" onClick={handleRevise}>
+                  <PenLine className="w-4 h-4" />
+                  {diff ? 'Revise Comments' : spoken ? 'Answer Again' : 'Revise Draft'}
+                </Button>
+              )}
+              <Button onClick={handleFinish}>Complete Exercise</Button>
+            </>
+          }
+        />
+      )}
+
+      {/* Action Bar (visible while drafting or revising) */}
+      {editable && (
         <div className="fixed bottom-0 left-0 right-0 p-4 bg-white border-t border-slate-200 shadow-lg flex justify-center">
-            <div className="w-full max-w-4xl flex justify-end">
+            <div className="w-full max-w-4xl flex justify-end gap-3">
+                {revising && (
+                    <Button variant="outline" onClick={handleCancelRevision} disabled={analyzing}>
+                        Cancel
+                    </Button>
+                )}
                 <Button 
                     onClick={handleSubmit} 
                     isLoading={analyzing}
-                    disabled={userInput.length < 10}
+                    disabled={recording || (diff
+                      ? comments.length === 0 || (revising && formatReviewComments(diff, comments) === latest?.draft)
+                      : userInput.length < 10 || (revising && userInput === latest?.draft))}
                     variant="secondary"
                     className="w-full md:w-auto px-8"
                 >
                     <Send className="w-4 h-4" />
-                    Submit for Review
+                    {revising ? 'Resubmit for Review' : 'Submit for Review'}
                 </Button>
             </div>
         </div>
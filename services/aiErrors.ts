@@ -0,0 +1,91 @@
+import { ApiError } from "@google/genai";
+
+// Raised when the model keeps returning payloads that fail validation,
+// even after the corrective retries are exhausted.
+export class AIResponseValidationError extends Error {
+  public readonly issues: string[];
+  public readonly attempts: number;
+
+  constructor(label: string, issues: string[], attempts: number) {
+    super(`The AI returned an invalid ${label} after ${attempts} attempts (${issues[0] ?? 'unknown issue'})`);
+    this.name = 'AIResponseValidationError';
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+export type AIErrorCategory =
+  | 'quota'           // Daily quota or billing limit used up; retrying today will not help
+  | 'rateLimit'       // Too many requests in a short window
+  | 'auth'            // Missing, invalid or unauthorised API key
+  | 'network'         // The request never reached the API
+  | 'timeout'         // No response within the per-call time limit
+  | 'unavailable'     // The API answered with a server error
+  | 'safety'          // The prompt or response was blocked by a safety filter
+  | 'cancelled'       // The caller aborted, e.g. the view was closed
+  | 'invalidResponse' // The model's output never passed validation
+  | 'unknown';
+
+// A failed AI request, classified so the UI can say what the learner can do about it.
+export class AIRequestError extends Error {
+  public readonly category: AIErrorCategory;
+  public readonly status?: number;
+
+  constructor(category: AIErrorCategory, message: string, status?: number) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.category = category;
+    this.status = status;
+  }
+
+  // Transient failures that are worth another attempt after a pause
+  get retryable(): boolean {
+    return this.category === 'rateLimit' || this.category === 'network' || this.category === 'timeout' || this.category === 'unavailable';
+  }
+}
+
+const isAbortError = (err: unknown): boolean =>
+  err instanceof Error && err.name === 'AbortError';
+
+const classifyStatus = (status: number, message: string): AIErrorCategory => {
+  if (status === 429) {
+    // Per-minute limits clear by themselves; per-day quotas do not
+    return /per ?day/i.test(message) ? 'quota' : 'rateLimit';
+  }
+  if (status === 401 || status === 403 || /api key/i.test(message)) return 'auth';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+};
+
+// Maps anything thrown by an AI call onto a category. Already-classified errors pass through.
+export const classifyError = (err: unknown): AIRequestError => {
+  if (err instanceof AIRequestError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  if (err instanceof AIResponseValidationError) return new AIRequestError('invalidResponse', message);
+  if (err instanceof ApiError) return new AIRequestError(classifyStatus(err.status, message), message, err.status);
+  if (isAbortError(err)) return new AIRequestError('cancelled', message);
+  // fetch rejects with a TypeError when the connection itself fails. navigator.onLine is unreliable
+  // (captive portals, VPNs), so it only helps identify TypeErrors whose wording varies by browser.
+  if (err instanceof TypeError) {
+    const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+    if (/fetch|network/i.test(message) || offline) return new AIRequestError('network', message);
+  }
+  return new AIRequestError('unknown', message);
+};
+
+const USER_MESSAGES: Record<AIErrorCategory, string> = {
+  quota: "The AI usage quota for today has been used up. Try again tomorrow, or check the plan and billing for your API key.",
+  rateLimit: "The AI service is receiving too many requests. Wait a minute and try again.",
+  auth: "The API key was rejected. Check that API_KEY is set to a valid key with access to the model.",
+  network: "Could not reach the AI service. Check your internet connection and try again.",
+  timeout: "The AI service took too long to respond. Try again in a moment.",
+  unavailable: "The AI service is temporarily unavailable. Try again in a few minutes.",
+  safety: "The content was blocked by the AI safety filter. Try a different topic or rephrase your text.",
+  cancelled: "The request was cancelled.",
+  invalidResponse: "The AI returned an unusable answer several times in a row. Please try again.",
+  unknown: "Something went wrong while talking to the AI service."
+};
+
+// One actionable sentence for the learner instead of the raw error text.
+export const getUserMessage = (err: unknown): string => USER_MESSAGES[classifyError(err).category];
@@ -0,0 +1,83 @@
+import { AIRequestError, classifyError } from "./aiErrors";
+import { Logger } from "./logger";
+
+export interface RequestOptions {
+  signal?: AbortSignal;  // Aborting it cancels the call, including any pending retry
+  timeoutMs?: number;    // Limit for each individual attempt
+  maxRetries?: number;   // Extra attempts after transient failures
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 3;
+
+// Backoff doubles from BASE up to MAX, with jitter so parallel callers spread out.
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 16_000;
+
+const backoffDelay = (retry: number): number => {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** retry);
+  return ceiling / 2 + Math.random() * ceiling / 2;
+};
+
+const cancelledError = () => new AIRequestError('cancelled', 'The request was cancelled.');
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs one attempt under its own controller, aborted by either the caller or the timeout.
+const attemptOnce = async <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (signal?.aborted) throw cancelledError();
+    if (timedOut) throw new AIRequestError('timeout', `No response within ${timeoutMs / 1000}s.`);
+    throw classifyError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Shared wrapper for every AI request: per-attempt timeout, exponential backoff on
+// transient failures (rate limits, network, server errors) and caller cancellation.
+// Whatever it throws is an AIRequestError.
+export const callWithRetry = async <T>(
+  label: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES } = options;
+
+  for (let retry = 0; ; retry++) {
+    if (signal?.aborted) throw cancelledError();
+    try {
+      return await attemptOnce(run, timeoutMs, signal);
+    } catch (error) {
+      const classified = classifyError(error);
+      if (!classified.retryable || retry >= maxRetries) throw classified;
+      const wait = backoffDelay(retry);
+      Logger.warn(`${label} failed (${classified.category}), retrying in ${Math.round(wait)}ms`, { retry: retry + 1, maxRetries });
+      await sleep(wait, signal);
+    }
+  }
+};
@@ -0,0 +1,132 @@
+import { ExerciseResult, DifficultyTier, RubricDimension } from "../types";
+import { getTier } from "./levels";
+
+// Everything here is derived from UserState.history on the fly; nothing is stored separately.
+
+export type SkillType = ExerciseResult['type'];
+
+export interface ScorePoint {
+  date: string;
+  score: number;
+}
+
+export interface TierAverage {
+  tier: DifficultyTier;
+  reading: number | null; // null when no exercises at that tier
+  writing: number | null;
+  listening: number | null;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  activeDays: Set<string>; // Local YYYY-MM-DD keys with at least one exercise
+}
+
+export interface SubScoreTrend {
+  dimension: RubricDimension;
+  recent: number | null;   // Average over the latest window of writing exercises
+  previous: number | null; // Average over the window before that
+}
+
+export interface TopicScore {
+  topic: string;
+  type: SkillType;
+  average: number;
+  attempts: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const average = (values: number[]): number | null =>
+  values.length === 0 ? null : Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+// Local-time day key, so a session at 23:30 counts toward the learner's own calendar day
+export const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getScoreSeries = (history: ExerciseResult[], type: SkillType): ScorePoint[] =>
+  history
+    .filter(entry => entry.type === type)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(entry => ({ date: entry.date, score: entry.score }));
+
+export const getAverageByTier = (history: ExerciseResult[]): TierAverage[] =>
+  Object.values(DifficultyTier).map(tier => {
+    const atTier = history.filter(entry => getTier(entry.level) === tier);
+    return {
+      tier,
+      reading: average(atTier.filter(e => e.type === 'reading').map(e => e.score)),
+      writing: average(atTier.filter(e => e.type === 'writing').map(e => e.score)),
+      listening: average(atTier.filter(e => e.type === 'listening').map(e => e.score))
+    };
+  });
+
+export const getStreaks = (history: ExerciseResult[], today = new Date()): StreakSummary => {
+  const activeDays = new Set(history.map(entry => toDayKey(new Date(entry.date))));
+
+  const previousDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate() - 1);
+
+  // The current streak survives until the end of today even if today has no practice yet
+  let cursor = activeDays.has(toDayKey(today)) ? today : previousDay(today);
+  let current = 0;
+  while (activeDays.has(toDayKey(cursor))) {
+    current++;
+    cursor = previousDay(cursor);
+  }
+
+  // Day numbers on the UTC calendar avoid DST gaps when checking for consecutive days
+  const dayNumbers = Array.from(activeDays).sort().map(key => {
+    const [y, m, d] = key.split('-').map(Number);
+    return Date.UTC(y, m - 1, d) / DAY_MS;
+  });
+  let longest = 0;
+  let run = 0;
+  dayNumbers.forEach((day, i) => {
+    run = i > 0 && day - dayNumbers[i - 1] === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  return { current, longest, activeDays };
+};
+
+// Lowest-scoring topics first. Entries from before topics were recorded are skipped.
+export const getWeakestTopics = (history: ExerciseResult[], limit = 3): TopicScore[] => {
+  const groups = new Map<string, { type: SkillType; scores: number[] }>();
+
+  history.forEach(entry => {
+    const topic = entry.transcript?.type === 'writing'
+      ? entry.transcript.scenario.topic
+      : entry.transcript?.exercise.topic;
+    if (!topic) return;
+    const key = `${entry.type}:${topic}`;
+    const group = groups.get(key) ?? { type: entry.type, scores: [] };
+    group.scores.push(entry.score);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, { type, scores }]) => ({
+      topic: key.slice(type.length + 1),
+      type,
+      average: average(scores) ?? 0,
+      attempts: scores.length
+    }))
+    .sort((a, b) => a.average - b.average || b.attempts - a.attempts)
+    .slice(0, limit);
+};
+
+// Compares the latest `window` rubric-graded writing exercises with the ones before them.
+export const getSubScoreTrends = (history: ExerciseResult[], dimensions: RubricDimension[], window = 5): SubScoreTrend[] => {
+  const graded = history
+    .filter(entry => entry.subScores)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const recent = graded.slice(-window);
+  const previous = graded.slice(-window * 2, -window);
+
+  return dimensions.map(dimension => ({
+    dimension,
+    recent: average(recent.map(e => e.subScores![dimension])),
+    previous: average(previous.map(e => e.subScores![dimension]))
+  }));
+};
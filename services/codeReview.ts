@@ -0,0 +1,37 @@
+import { CodeDiff, DiffLine, ReviewComment, ReviewCommentFeedback, ReviewSeverity, WritingFeedback } from "../types";
+
+export const REVIEW_SEVERITIES: { key: ReviewSeverity; label: string; hint: string }[] = [
+  { key: 'nit', label: 'Nit', hint: 'Minor style or naming point; fine to merge without it' },
+  { key: 'suggestion', label: 'Suggestion', hint: 'Worth changing, but the author can decide' },
+  { key: 'blocking', label: 'Blocking', hint: 'Must be fixed before merging' }
+];
+
+// Shorter comments are rejected before submission; they give the grader nothing to work with.
+export const MIN_COMMENT_LENGTH = 10;
+
+const PREFIX: Record<DiffLine['kind'], string> = { context: ' ', add: '+', remove: '-' };
+
+export const formatDiffLine = (line: DiffLine): string => `${PREFIX[line.kind]}${line.text}`;
+
+export const formatDiff = (diff: CodeDiff): string =>
+  [`--- a/${diff.filePath}`, `+++ b/${diff.filePath}`, ...diff.lines.map(formatDiffLine)].join('\n');
+
+export const sortComments = (comments: ReviewComment[]): ReviewComment[] =>
+  [...comments].sort((a, b) => a.line - b.line);
+
+// Plain-text form of the review, stored as the revision draft so history, replay and
+// grammar cards keep working on a single string.
+export const formatReviewComments = (diff: CodeDiff, comments: ReviewComment[]): string =>
+  sortComments(comments)
+    .map(c => {
+      const line = diff.lines[c.line - 1];
+      return `L${c.line} [${c.severity}] ${c.text}${line ? `\n  > ${formatDiffLine(line)}` : ''}`;
+    })
+    .join('\n\n');
+
+export const getCommentFeedback = (feedback: WritingFeedback | undefined, line: number): ReviewCommentFeedback | undefined =>
+  feedback?.commentFeedback?.find(f => f.line === line);
+
+// Diff with 1-based line positions, the form prompts use so comments and issues can be anchored.
+export const formatNumberedDiff = (diff: CodeDiff): string =>
+  [`File: ${diff.filePath}`, ...diff.lines.map((line, i) => `${String(i + 1).padStart(3)} | ${formatDiffLine(line)}`)].join('\n');
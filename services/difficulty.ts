@@ -0,0 +1,116 @@
+import { ExerciseResult, GenerationParams, VocabularyBand, IdiomDensity } from "../types";
+import { SkillType } from "./analytics";
+
+// Elo-style skill estimation: every finished exercise is a "match" between the learner
+// and an item pitched at some rating, and the 0-100 score is the match result.
+
+export interface SkillEstimate {
+  rating: number;
+  samples: number; // Exercises that contributed to the estimate
+}
+
+export type ProficiencyProfile = Record<SkillType, SkillEstimate>;
+
+// Level 1 and level 50 map onto the ends of this range.
+export const MIN_RATING = 800;
+export const MAX_RATING = 2000;
+
+// Only the most recent results of each type count, so old mistakes stop dragging the estimate down.
+const RECENT_WINDOW = 20;
+
+// Large steps while the estimate is still settling, smaller ones afterwards.
+const K_PROVISIONAL = 64;
+const K_ESTABLISHED = 24;
+const PROVISIONAL_SAMPLES = 5;
+
+// Content is pitched slightly above the current estimate to keep the learner stretching.
+const TARGET_STRETCH = 40;
+
+const VOCABULARY_BANDS: VocabularyBand[] = ['A2', 'B1', 'B2', 'C1', 'C2'];
+const IDIOM_DENSITIES: IdiomDensity[] = ['none', 'low', 'medium', 'high'];
+
+const MIN_MESSAGE_WORDS = 50;
+const MAX_MESSAGE_WORDS = 280;
+const MIN_DISTRACTORS = 2;
+const MAX_DISTRACTORS = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Position of a rating within [MIN_RATING, MAX_RATING], from 0 to 1
+const normalize = (rating: number) => clamp((rating - MIN_RATING) / (MAX_RATING - MIN_RATING), 0, 1);
+
+const pickStep = <T>(steps: T[], t: number): T => steps[Math.min(steps.length - 1, Math.floor(t * steps.length))];
+
+export const levelToRating = (level: number): number =>
+  Math.round(MIN_RATING + ((clamp(level, 1, 50) - 1) / 49) * (MAX_RATING - MIN_RATING));
+
+// Inverse of levelToRating, for placing a new learner whose rating was measured directly
+export const ratingToLevel = (rating: number): number =>
+  Math.round(1 + normalize(rating) * 49);
+
+// Probability-like expected score (0-1) of a learner at `skill` against an item at `item`
+export const expectedScore = (skill: number, item: number): number =>
+  1 / (1 + Math.pow(10, (item - skill) / 400));
+
+// Entries saved before the engine existed have no recorded difficulty; their level stands in for it.
+const itemRating = (entry: ExerciseResult): number => entry.difficulty ?? levelToRating(entry.level);
+
+// Prior for learners who skipped placement: the bottom of the scale, where level 1 sits.
+export const DEFAULT_STARTING_RATING = MIN_RATING;
+
+// Replays the recent results of one skill, starting from the learner's placement rating.
+// The XP level plays no part, so grinding XP never moves the difficulty by itself.
+export const estimateSkill = (history: ExerciseResult[], type: SkillType, startingRating: number): SkillEstimate => {
+  const recent = history
+    .filter(entry => entry.type === type)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-RECENT_WINDOW);
+
+  const rating = recent.reduce((skill, entry, i) => {
+    const k = i < PROVISIONAL_SAMPLES ? K_PROVISIONAL : K_ESTABLISHED;
+    return skill + k * (entry.score / 100 - expectedScore(skill, itemRating(entry)));
+  }, startingRating);
+
+  return { rating: Math.round(clamp(rating, MIN_RATING, MAX_RATING)), samples: recent.length };
+};
+
+export const estimateProficiency = (history: ExerciseResult[], startingRating: number): ProficiencyProfile => ({
+  reading: estimateSkill(history, 'reading', startingRating),
+  writing: estimateSkill(history, 'writing', startingRating),
+  listening: estimateSkill(history, 'listening', startingRating)
+});
+
+export const getVocabularyBand = (rating: number): VocabularyBand => pickStep(VOCABULARY_BANDS, normalize(rating));
+
+// Rating that best explains results on items of known difficulty (least squares against the
+// expected score). Used where there is no history to replay, such as a mock test.
+const FIT_STEP = 10;
+
+export const fitRating = (results: { difficulty: number; score: number }[]): number => {
+  let best = MIN_RATING;
+  let bestError = Infinity;
+  for (let rating = MIN_RATING; rating <= MAX_RATING; rating += FIT_STEP) {
+    const error = results.reduce((sum, r) => sum + (r.score / 100 - expectedScore(rating, r.difficulty)) ** 2, 0);
+    if (error < bestError) {
+      best = rating;
+      bestError = error;
+    }
+  }
+  return best;
+};
+
+// Content parameters for an item pitched exactly at the given rating.
+export const getParamsForRating = (rating: number): GenerationParams => {
+  const targetRating = Math.round(clamp(rating, MIN_RATING, MAX_RATING));
+  const t = normalize(targetRating);
+  return {
+    targetRating,
+    vocabularyBand: getVocabularyBand(targetRating),
+    messageLength: Math.round((MIN_MESSAGE_WORDS + t * (MAX_MESSAGE_WORDS - MIN_MESSAGE_WORDS)) / 10) * 10,
+    idiomDensity: pickStep(IDIOM_DENSITIES, t),
+    distractorCount: Math.round(MIN_DISTRACTORS + t * (MAX_DISTRACTORS - MIN_DISTRACTORS))
+  };
+};
+
+export const getGenerationParams = (estimate: SkillEstimate): GenerationParams =>
+  getParamsForRating(estimate.rating + TARGET_STRETCH);
@@ -0,0 +1,27 @@
+import { ReadingExercise, WritingScenario, WritingFeedback, GenerationParams, ScenarioVariables, CustomReadingText, TermDefinition, ReviewComment, PartialWritingFeedback, ListeningFormat, RolePlayTurn, RolePlayReply } from "../types";
+
+export type ProviderId = 'gemini' | 'fixture';
+
+export type ProgressHandler = (partial: PartialWritingFeedback) => void;
+
+// Every exercise the app generates or grades goes through an ExerciseProvider,
+// so the UI never talks to a specific AI backend directly.
+// Every call takes an optional signal; aborting it rejects with a 'cancelled' AIRequestError.
+export interface ExerciseProvider {
+  id: ProviderId;
+  generateReadingExercise: (params: GenerationParams, variables: ScenarioVariables, signal?: AbortSignal) => Promise<ReadingExercise>;
+  generateThreadExercise: (params: GenerationParams, variables: ScenarioVariables, signal?: AbortSignal) => Promise<ReadingExercise>;
+  generateListeningExercise: (params: GenerationParams, variables: ScenarioVariables, format: ListeningFormat, signal?: AbortSignal) => Promise<ReadingExercise>;
+  generateReadingFromText: (params: GenerationParams, text: CustomReadingText, signal?: AbortSignal) => Promise<ReadingExercise>;
+  generateWritingScenario: (params: GenerationParams, variables: ScenarioVariables, signal?: AbortSignal) => Promise<WritingScenario>;
+  // onProgress receives the feedback text as it streams in; the resolved value is the validated result
+  evaluateWriting: (params: GenerationParams, scenario: WritingScenario, userDraft: string, onProgress?: ProgressHandler, signal?: AbortSignal) => Promise<WritingFeedback>;
+  // Grades a dictated response as speech: same rubric, plus fillers, run-on sentences and structure
+  evaluateSpeaking: (params: GenerationParams, scenario: WritingScenario, transcript: string, onProgress?: ProgressHandler, signal?: AbortSignal) => Promise<WritingFeedback>;
+  // The partner's next message in character; the conversation ends with the learner's last message
+  replyInRolePlay: (params: GenerationParams, scenario: WritingScenario, conversation: RolePlayTurn[], signal?: AbortSignal) => Promise<RolePlayReply>;
+  evaluateRolePlay: (params: GenerationParams, scenario: WritingScenario, conversation: RolePlayTurn[], onProgress?: ProgressHandler, signal?: AbortSignal) => Promise<WritingFeedback>;
+  generateReviewScenario: (params: GenerationParams, variables: ScenarioVariables, signal?: AbortSignal) => Promise<WritingScenario>;
+  evaluateReview: (params: GenerationParams, scenario: WritingScenario, comments: ReviewComment[], onProgress?: ProgressHandler, signal?: AbortSignal) => Promise<WritingFeedback>;
+  defineTerm: (term: string, context: string, signal?: AbortSignal) => Promise<TermDefinition>;
+}
@@ -0,0 +1,1077 @@
+import { GoogleGenAI, Type, Schema, GenerateContentConfig, GenerateContentResponse, FinishReason } from "@google/genai";
+import { ReadingExercise, WritingScenario, WritingFeedback, WritingRubric, GenerationParams, ScenarioVariables, VocabularyBand, IdiomDensity, ScenarioPack, CustomReadingText, TermDefinition, ReviewComment, PartialWritingFeedback, ListeningFormat, RolePlayTurn, RolePlayReply } from "../types";
+import { ExerciseProvider, ProgressHandler } from "./exerciseProvider";
+import { AIResponseValidationError, AIRequestError } from "./aiErrors";
+import { callWithRetry } from "./aiRequest";
+import { Validator, repairPayload, validateReadingExercise, validateThreadExercise, validateCustomReadingExercise, validateWritingScenario, validateWritingFeedback, validateReviewScenario, validateReviewFeedback, validateSpeakingFeedback, validateRolePlayReply, validateRolePlayFeedback, validateTermDefinition } from "./responseValidator";
+import { computeOverallScore } from "./rubric";
+import { findPackFor } from "./scenarioCatalog";
+import { ThreadPayload, toThreadExercise } from "./threads";
+import { formatNumberedDiff, sortComments } from "./codeReview";
+import { MAX_ROLE_PLAY_TURNS, formatConversation, getLearnerMessages } from "./rolePlay";
+import { readPartialString } from "./partialJson";
+import { Logger } from "./logger";
+
+// The API key must be obtained exclusively from the environment variable process.env.API_KEY.
+// The client is created on first use so that offline providers never need a key.
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const MODEL_NAME = "gemini-3-flash-preview";
+
+// Total attempts (first call + corrective retries) before giving up on a malformed response.
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// Per-call time limits. A stream gets longer because it only ends once the whole payload is written.
+const REQUEST_TIMEOUT_MS = 60_000;
+const STREAM_TIMEOUT_MS = 120_000;
+
+// --- Few-Shot Examples ---
+
+const READING_FEW_SHOT = `
+出力例:
+{
+  "subject": "Urgent: Production DB CPU Spike",
+  "sender": "Sarah, DevOps Lead",
+  "body": "Hi Team, I noticed the primary database CPU usage hit 95% at 2:00 AM UTC. It seems related to the new batch job. I've temporarily disabled the job. Can someone from the backend team investigate the query performance? We need a fix before tonight's peak traffic.",
+  "questions": [
+    {
+      "question": "What is the main problem reported?",
+      "options": ["The database is down", "High CPU usage on the database", "The batch job failed", "Network latency is high"],
+      "correctIndex": 1,
+      "explanation": "メールの冒頭で 'primary database CPU usage hit 95%' と述べられています。"
+    },
+    {
+      "question": "What action did Sarah take?",
+      "options": ["She fixed the query", "She scaled up the database", "She disabled the batch job", "She called the backend team"],
+      "correctIndex": 2,
+      "explanation": "'I've temporarily disabled the job' と書かれています。"
+    },
+    {
+      "question": "What is required from the backend team?",
+      "options": ["Restart the server", "Investigate query performance", "Write a new batch job", "Monitor the traffic"],
+      "correctIndex": 1,
+      "explanation": "'Can someone from the backend team investigate the query performance?' と依頼されています。"
+    }
+  ]
+}
+`;
+
+const WRITING_SCENARIO_FEW_SHOT = `
+出力例:
+{
+  "context": "You received a Slack message from the QA team: 'The login button on the staging environment is not working on Safari.'",
+  "recipientRole": "QA Engineer (Alex)",
+  "goal": "バグの再現手順を尋ね、調査することを伝える",
+  "keyPoints": ["Safariのバージョンを確認する", "コンソールエラーがあるか聞く", "今から調査を開始することを伝える"]
+}
+`;
+
+const EVALUATION_FEW_SHOT = `
+入力例 (必須ポイント: ["Safariのバージョンを確認する", "今から調査を開始することを伝える"], ユーザーのドラフト): "Hey Alex. I fix it. Wait please."
+出力例:
+{
+  "rubric": {
+    "keyPoints": [
+      { "keyPoint": "Safariのバージョンを確認する", "score": 0, "justification": "Safariのバージョンについて一切触れていません。" },
+      { "keyPoint": "今から調査を開始することを伝える", "score": 50, "justification": "'I fix it' で対応する意思は伝わりますが、調査を始めるという内容が曖昧です。" }
+    ],
+    "tone": { "score": 25, "justification": "QAエンジニアへの返信としては命令口調でぶっきらぼうです。" },
+    "grammar": { "score": 40, "justification": "時制の誤りがあります。" },
+    "clarity": { "score": 35, "justification": "何をいつまでにするのかが不明確です。" },
+    "conciseness": { "score": 60, "justification": "短いですが、必要な情報まで削られています。" }
+  },
+  "critique": "文法は間違っていませんが、ビジネスの場としてはあまりにもカジュアルすぎますし、情報が不足しています。「I fix it」ではなく「I will investigate it」などが適切です。",
+  "improvedVersion": "Hi Alex, thanks for the report. I'll look into it right away. Could you please wait a moment while I investigate?",
+  "grammarMistakes": [
+    {
+      "original": "I fix it.",
+      "corrected": "I will fix it.",
+      "explanation": "'I fix it' は現在形ですが、これから行う動作なので 'I will fix it' または 'I am fixing it' が適切です。"
+    },
+    {
+      "original": "Wait please.",
+      "corrected": "Could you please wait a moment?",
+      "explanation": "命令形はぶっきらぼうな印象を与えます。'Could you please ...?' で丁寧に依頼しましょう。"
+    }
+  ]
+}
+`;
+
+// --- Scenario Pack Context ---
+// A topic that came from a scenario pack uses that pack's examples (when it has them) and glossary.
+
+const formatOutputExample = (example: unknown): string =>
+  `\n出力例:\n${JSON.stringify(example, null, 2)}\n`;
+
+const getReadingFewShot = (pack?: ScenarioPack): string =>
+  pack?.examples.reading ? formatOutputExample(pack.examples.reading) : READING_FEW_SHOT;
+
+const getScenarioFewShot = (pack?: ScenarioPack): string =>
+  pack?.examples.scenario ? formatOutputExample(pack.examples.scenario) : WRITING_SCENARIO_FEW_SHOT;
+
+const getEvaluationFewShot = (pack?: ScenarioPack): string => {
+  const example = pack?.examples.evaluation;
+  if (!example) return EVALUATION_FEW_SHOT;
+  return `\n入力例 (必須ポイント: ${JSON.stringify(example.keyPoints)}, ユーザーのドラフト): "${example.draft}"${formatOutputExample(example.output)}`;
+};
+
+const getGlossaryContext = (pack?: ScenarioPack): string =>
+  pack && pack.glossary.length > 0
+    ? `用語集 (${pack.name}): 以下の用語を文脈に合わせて自然に使用してください。
+  ${pack.glossary.map(g => `- ${g.term}: ${g.definition}`).join('\n  ')}`
+    : '';
+
+// --- Difficulty Context ---
+
+const VOCABULARY_GUIDE: Record<VocabularyBand, string> = {
+  A2: "CEFR A2 相当。日常的な基本語彙のみ。専門用語は bug, server, test など最小限にしてください。",
+  B1: "CEFR B1 相当。よく使われる技術用語（deploy, API, error log など）は使ってよいが、文は短く明確に。",
+  B2: "CEFR B2 相当。標準的な技術用語（Latency, PR, CI/CD, rollback など）を自由に使用してください。",
+  C1: "CEFR C1 相当。抽象的な表現、ビジネス用語、複文を含めてください。",
+  C2: "CEFR C2 相当。ネイティブのリードやマネージャーが使う洗練された語彙とニュアンスを使用してください。"
+};
+
+const IDIOM_GUIDE: Record<IdiomDensity, string> = {
+  none: "イディオムや句動詞は使わないでください。",
+  low: "一般的な句動詞（look into, follow up など）を1〜2個まで。",
+  medium: "ビジネスでよく使うイディオム（on the same page, ballpark など）を2〜3個含めてください。",
+  high: "イディオムや婉曲表現（push back, boil the ocean など）を積極的に含めてください。"
+};
+
+// Turns the adaptive engine's parameters into prompt instructions.
+const getDifficultyContext = (params: GenerationParams): string =>
+  `難易度パラメータ (目標レーティング ${params.targetRating}):
+  - 語彙レベル: ${VOCABULARY_GUIDE[params.vocabularyBand]}
+  - メッセージの長さ: 約${params.messageLength}語
+  - イディオム: ${IDIOM_GUIDE[params.idiomDensity]}`;
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+];
+
+// A blocked prompt or response comes back as a normal answer without text, so it is raised here
+// as a safety error rather than surfacing later as an empty or invalid payload.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new AIRequestError('safety', `Blocked by the safety filter (${blockReason ?? finishReason}).`);
+  }
+};
+
+const requestText = async (label: string, contents: string, config: GenerateContentConfig): Promise<string | undefined> => {
+  const { abortSignal, ...rest } = config;
+  const response = await callWithRetry(label, signal =>
+    getClient().models.generateContent({ model: MODEL_NAME, contents, config: { ...rest, abortSignal: signal } }),
+    { signal: abortSignal, timeoutMs: REQUEST_TIMEOUT_MS });
+  assertNotBlocked(response);
+  return response.text;
+};
+
+// Streams the response, reporting the text received so far after every chunk.
+// A stream that breaks off mid-way yields what arrived plus a flag, so the caller can
+// treat it like any other malformed attempt instead of failing outright.
+const streamText = (
+  label: string,
+  contents: string,
+  config: GenerateContentConfig,
+  onText: (text: string) => void
+): Promise<{ text: string; cutOff: boolean }> => {
+  const { abortSignal, ...rest } = config;
+  return callWithRetry(label, async signal => {
+    let text = '';
+    onText(text);
+    try {
+      const stream = await getClient().models.generateContentStream({ model: MODEL_NAME, contents, config: { ...rest, abortSignal: signal } });
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        text += chunk.text ?? '';
+        onText(text);
+      }
+      return { text, cutOff: false };
+    } catch (error) {
+      // Nothing arrived, or the stream was stopped on purpose: a plain request failure
+      if (!text || signal.aborted || error instanceof AIRequestError) throw error;
+      Logger.warn("Stream was cut off", { received: text.length, error });
+      return { text, cutOff: true };
+    }
+  }, { signal: abortSignal, timeoutMs: STREAM_TIMEOUT_MS });
+};
+
+// Calls the model, repairs and validates the JSON payload, and re-prompts with the
+// list of problems until it passes or MAX_GENERATION_ATTEMPTS is reached.
+// With onText the response is streamed; validation still runs once per complete attempt.
+// Transient request failures are retried separately, inside callWithRetry; config.abortSignal cancels both.
+const generateValidated = async <T>(
+  label: string,
+  prompt: string,
+  config: GenerateContentConfig,
+  validate: Validator,
+  onText?: (text: string) => void
+): Promise<T> => {
+  let contents = prompt;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const requestConfig = { responseMimeType: "application/json", ...config };
+    const response = onText
+      ? await streamText(label, contents, requestConfig, onText)
+      : { text: await requestText(label, contents, requestConfig), cutOff: false };
+
+    let data: unknown = null;
+    if (response.cutOff) {
+      issues = ["The response was cut off before it finished."];
+    } else if (!response.text) {
+      issues = ["The response was empty."];
+    } else {
+      try {
+        data = repairPayload(JSON.parse(response.text));
+        issues = validate(data);
+      } catch {
+        issues = ["The response was not valid JSON."];
+      }
+    }
+
+    if (issues.length === 0) {
+      return data as T;
+    }
+
+    Logger.warn(`Invalid ${label} on attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}`, { issues });
+    contents = `${prompt}
+
+  重要: 前回の出力には以下の問題がありました。すべて修正した上で、スキーマに従ったJSONのみを出力してください。
+  ${issues.map(issue => `- ${issue}`).join('\n  ')}
+
+  前回の出力:
+  ${response.text ?? '(empty)'}`;
+  }
+
+  throw new AIResponseValidationError(label, issues, MAX_GENERATION_ATTEMPTS);
+};
+
+const QUESTIONS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      question: { type: Type.STRING },
+      options: { type: Type.ARRAY, items: { type: Type.STRING } },
+      correctIndex: { type: Type.INTEGER, description: "Zero-based index of the correct option" },
+      explanation: { type: Type.STRING, description: "Why the answer is correct (in Japanese)" }
+    },
+    required: ["question", "options", "correctIndex", "explanation"]
+  }
+};
+
+const READING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    subject: { type: Type.STRING, description: "Email subject line" },
+    sender: { type: Type.STRING, description: "Name and role of the sender (e.g., 'Mike, Backend Lead')" },
+    body: { type: Type.STRING, description: "The content of the technical email or slack message." },
+    questions: QUESTIONS_SCHEMA
+  },
+  required: ["subject", "sender", "body", "questions"]
+};
+
+const generateReadingExercise = async (params: GenerationParams, variables: ScenarioVariables, signal?: AbortSignal): Promise<ReadingExercise> => {
+  Logger.info(`Generating Reading Exercise at rating ${params.targetRating}`, { ...params, ...variables });
+  const difficultyContext = getDifficultyContext(params);
+  const { topic, tone } = variables;
+  const pack = findPackFor(topic);
+
+  const prompt = `ソフトウェアエンジニアが英語を学ぶための読解問題を作成してください。
+  ${difficultyContext}
+  
+  シナリオ変数:
+  - トピック: ${topic}
+  - トーン: ${tone}
+  
+  上記の変数に基づいて、同僚からのリアルなメールやメッセージを作成してください。
+  3つの多肢選択式の読解問題を含めてください。各問題の選択肢は、正解1つと紛らわしい誤答${params.distractorCount}つの計${params.distractorCount + 1}つにしてください。
+  重要: 各質問の 'explanation'（解説）は日本語で記述してください。
+  ${getGlossaryContext(pack)}
+
+  ${getReadingFewShot(pack)}`;
+
+  try {
+    const data = await generateValidated<ReadingExercise>("reading exercise", prompt, {
+      responseSchema: READING_SCHEMA,
+      abortSignal: signal,
+      systemInstruction: "You are a senior technical English tutor designed to simulate real-world software engineering communication."
+    }, validateReadingExercise);
+    Logger.info("Reading Exercise Generated Successfully", { subject: data.subject });
+    return { ...data, topic, tone };
+
+  } catch (error) {
+    Logger.error("Failed to generate reading exercise", error);
+    throw error;
+  }
+};
+
+const THREAD_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    channel: { type: Type.STRING, description: "Channel name including '#', e.g. '#incident-payments'" },
+    messages: {
+      type: Type.ARRAY,
+      description: "The thread in chronological order",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          author: { type: Type.STRING, description: "First name of the participant" },
+          role: { type: Type.STRING, description: "Team role, e.g. 'SRE' or 'Backend Lead'" },
+          timestamp: { type: Type.STRING, description: "Time of day the message was posted, e.g. '10:42 AM'" },
+          text: { type: Type.STRING, description: "Message text; may @mention other participants by first name" },
+          code: { type: Type.STRING, description: "Optional code snippet, log excerpt or command" },
+          reactions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                emoji: { type: Type.STRING },
+                count: { type: Type.INTEGER }
+              },
+              required: ["emoji", "count"]
+            }
+          }
+        },
+        required: ["author", "role", "timestamp", "text"]
+      }
+    },
+    questions: QUESTIONS_SCHEMA
+  },
+  required: ["channel", "messages", "questions"]
+};
+
+const generateThreadExercise = async (params: GenerationParams, variables: ScenarioVariables, signal?: AbortSignal): Promise<ReadingExercise> => {
+  Logger.info(`Generating Thread Exercise at rating ${params.targetRating}`, { ...params, ...variables });
+  const difficultyContext = getDifficultyContext(params);
+  const { topic, tone } = variables;
+  const pack = findPackFor(topic);
+
+  const prompt = `ソフトウェアエンジニアが英語を学ぶための、Slack スレッド形式の読解問題を作成してください。
+  ${difficultyContext}
+  (メッセージ長の目安はスレッド全体の語数として扱ってください。)
+  
+  シナリオ変数:
+  - トピック: ${topic}
+  - トーン: ${tone}
+  
+  出力要件:
+  1. 'messages': 3〜5人の参加者による6〜10件のメッセージ。チャットらしい短い文、略語、@メンション、必要に応じてコード片やログ ('code') やリアクション ('reactions') を含めてください。
+  2. 議論の途中で意見の対立や誤解があり、最終的に誰かが方針を決める流れにしてください。
+  3. 'questions': スレッド全体の理解を問う多肢選択式の問題を3つ。「誰が何を決めたか」「どのメッセージで問題が解決したか」「誰が次に何をするか」のような、複数のメッセージを読み合わせないと答えられない問題にしてください。各問題の選択肢は、正解1つと紛らわしい誤答${params.distractorCount}つの計${params.distractorCount + 1}つ。
+  重要: 各質問の 'explanation'（解説）は日本語で記述し、根拠となるメッセージを投稿者名と時刻で示してください。
+  ${getGlossaryContext(pack)}`;
+
+  try {
+    const data = await generateValidated<ThreadPayload>("thread exercise", prompt, {
+      responseSchema: THREAD_SCHEMA,
+      abortSignal: signal,
+      systemInstruction: "You are a senior technical English tutor designed to simulate real-world software engineering communication."
+    }, validateThreadExercise);
+    Logger.info("Thread Exercise Generated Successfully", { channel: data.channel, messages: data.messages.length });
+    return { ...toThreadExercise(data), topic, tone };
+
+  } catch (error) {
+    Logger.error("Failed to generate thread exercise", error);
+    throw error;
+  }
+};
+
+// --- Listening ---
+// Listening reuses the reading exercise shape; only the framing of the text changes.
+
+const LISTENING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    subject: { type: Type.STRING, description: "What the learner is listening to, e.g. 'Voicemail from Mike' or 'Daily Standup'" },
+    sender: { type: Type.STRING, description: "Name and role of the speaker (e.g., 'Mike, Backend Lead')" },
+    body: { type: Type.STRING, description: "Exactly what the speaker says, as it will be read aloud by text-to-speech" },
+    questions: QUESTIONS_SCHEMA
+  },
+  required: ["subject", "sender", "body", "questions"]
+};
+
+const LISTENING_FRAMING: Record<ListeningFormat, string> = {
+  voicemail: "同僚が学習者に残した留守番電話のメッセージ。名乗り、用件、折り返しや対応のお願いを含めてください。",
+  meeting: "スタンドアップやオンライン会議での一人の発言。昨日やったこと、今日やること、ブロッカーや他のメンバーへの依頼などを含めてください。"
+};
+
+const generateListeningExercise = async (params: GenerationParams, variables: ScenarioVariables, format: ListeningFormat, signal?: AbortSignal): Promise<ReadingExercise> => {
+  Logger.info(`Generating Listening Exercise (${format}) at rating ${params.targetRating}`, { ...params, ...variables });
+  const difficultyContext = getDifficultyContext(params);
+  const { topic, tone } = variables;
+  const pack = findPackFor(topic);
+
+  const prompt = `ソフトウェアエンジニアが英語を学ぶための聞き取り問題を作成してください。
+  ${difficultyContext}
+  
+  シナリオ変数:
+  - トピック: ${topic}
+  - トーン: ${tone}
+  - 形式: ${LISTENING_FRAMING[format]}
+  
+  出力要件:
+  1. 'body': 音声合成でそのまま読み上げる話し言葉の英文。"um", "so basically", "just a heads-up" のような口語表現や言い直しを自然に含め、箇条書き・URL・コードブロック・絵文字など読み上げられないものは使わないでください。
+  2. 'questions': 聞き取った内容の理解を問う多肢選択式の問題を3つ。数字、担当者、期限など、聞き逃しやすい情報を問うものを含めてください。各問題の選択肢は、正解1つと紛らわしい誤答${params.distractorCount}つの計${params.distractorCount + 1}つ。
+  重要: 各質問の 'explanation'（解説）は日本語で記述し、根拠となる発言を引用してください。
+  ${getGlossaryContext(pack)}`;
+
+  try {
+    const data = await generateValidated<ReadingExercise>("listening exercise", prompt, {
+      responseSchema: LISTENING_SCHEMA,
+      abortSignal: signal,
+      systemInstruction: "You are a senior technical English tutor designed to simulate real-world software engineering communication."
+    }, validateReadingExercise);
+    Logger.info("Listening Exercise Generated Successfully", { subject: data.subject });
+    return { ...data, format, topic, tone };
+
+  } catch (error) {
+    Logger.error("Failed to generate listening exercise", error);
+    throw error;
+  }
+};
+
+// READING_SCHEMA plus the study aids that only custom text gets.
+const CUSTOM_READING_SCHEMA: Schema = {
+  ...READING_SCHEMA,
+  properties: {
+    ...READING_SCHEMA.properties,
+    vocabulary: {
+      type: Type.ARRAY,
+      description: "Technical terms and idioms from the text worth learning",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING, description: "The word or phrase exactly as it appears in the text" },
+          meaning: { type: Type.STRING, description: "Meaning in this context (in Japanese)" }
+        },
+        required: ["term", "meaning"]
+      }
+    },
+    paraphrase: { type: Type.STRING, description: "The whole message restated in plain, simple English" }
+  },
+  required: [...(READING_SCHEMA.required ?? []), "vocabulary", "paraphrase"]
+};
+
+const generateReadingFromText = async (params: GenerationParams, text: CustomReadingText, signal?: AbortSignal): Promise<ReadingExercise> => {
+  Logger.info("Generating Reading Exercise from learner text", { length: text.body.length });
+  const difficultyContext = getDifficultyContext(params);
+
+  const prompt = `学習者が実際に受け取った英文をもとに、読解問題を作成してください。
+  ${difficultyContext}
+  (上記の難易度は問題の難しさにのみ適用し、本文は変更しないでください。)
+  
+  本文:
+  """
+  ${text.body}
+  """
+  ${text.sender ? `送信者: ${text.sender}` : "送信者は不明です。本文から推測した名前と役割を 'sender' に入れてください。"}
+  ${text.subject ? `件名: ${text.subject}` : "件名は不明です。内容を要約した短い件名を 'subject' に入れてください。"}
+  
+  出力要件:
+  1. 'body': 本文をそのまま出力してください。
+  2. 'questions': 本文の内容理解を確認する多肢選択式の問題を3つ。各問題の選択肢は、正解1つと紛らわしい誤答${params.distractorCount}つの計${params.distractorCount + 1}つ。'explanation' は日本語で、本文の該当箇所を引用してください。
+  3. 'vocabulary': 本文に出てくる技術用語・イディオムを5〜10個。'term' は本文の表記のまま、'meaning' はこの文脈での意味を日本語で。
+  4. 'paraphrase': 本文全体を平易な英語で言い換えたもの。
+
+  ${READING_FEW_SHOT}`;
+
+  try {
+    const data = await generateValidated<ReadingExercise>("custom reading exercise", prompt, {
+      responseSchema: CUSTOM_READING_SCHEMA,
+      abortSignal: signal,
+      systemInstruction: "You are a senior technical English tutor helping an engineer understand a real message from their team."
+    }, validateCustomReadingExercise);
+    Logger.info("Custom Reading Exercise Generated Successfully", { subject: data.subject });
+    // Keep the learner's original wording and headers even if the model touched them
+    return {
+      ...data,
+      body: text.body,
+      sender: text.sender || data.sender,
+      subject: text.subject || data.subject,
+      custom: true
+    };
+
+  } catch (error) {
+    Logger.error("Failed to generate reading exercise from text", error);
+    throw error;
+  }
+};
+
+const SCENARIO_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    context: { type: Type.STRING, description: "The situation (e.g., 'The production DB is spiking in CPU')" },
+    recipientRole: { type: Type.STRING, description: "Who the user is writing to" },
+    goal: { type: Type.STRING, description: "What the user needs to achieve (in Japanese)" },
+    keyPoints: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Facts that must be included (in Japanese)" }
+  },
+  required: ["context", "recipientRole", "goal", "keyPoints"]
+};
+
+const generateWritingScenario = async (params: GenerationParams, variables: ScenarioVariables, signal?: AbortSignal): Promise<WritingScenario> => {
+  Logger.info(`Generating Writing Scenario at rating ${params.targetRating}`, { ...params, ...variables });
+  const difficultyContext = getDifficultyContext(params);
+  const { topic: situation, tone } = variables;
+  const pack = findPackFor(situation);
+
+  const prompt = `ソフトウェアエンジニア向けのライティングシナリオを作成してください。
+  ${difficultyContext}
+  ('context' の長さと語彙は上記に従い、ユーザーに求める返信の長さもレベルに見合ったものにしてください。)
+  
+  シナリオ変数:
+  - シチュエーション: ${situation}
+  - 希望するトーン: ${tone}
+  
+  フォーマット制約:
+  1. 'context' は英語で記述してください（受信したメッセージや状況をシミュレート）。
+  2. 'goal' と 'keyPoints' は日本語で記述してください（ユーザーへの指示）。
+  ${getGlossaryContext(pack)}
+  
+  ${getScenarioFewShot(pack)}`;
+
+  try {
+    const data = await generateValidated<WritingScenario>("writing scenario", prompt, {
+      responseSchema: SCENARIO_SCHEMA,
+      abortSignal: signal
+    }, validateWritingScenario);
+    Logger.info("Writing Scenario Generated Successfully", { context: data.context });
+    return { ...data, topic: situation, tone };
+
+  } catch (error) {
+    Logger.error("Failed to generate writing scenario", error);
+    throw error;
+  }
+};
+
+const RUBRIC_SCORE_PROPERTIES = {
+  score: { type: Type.INTEGER, description: "Score from 0 to 100" },
+  justification: { type: Type.STRING, description: "One-sentence reason for the score (in Japanese)" }
+};
+
+const RUBRIC_SCORE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: RUBRIC_SCORE_PROPERTIES,
+  required: ["score", "justification"]
+};
+
+const FEEDBACK_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    rubric: {
+      type: Type.OBJECT,
+      properties: {
+        keyPoints: {
+          type: Type.ARRAY,
+          description: "One entry per scenario key point, in the same order",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              keyPoint: { type: Type.STRING, description: "The key point text, copied from the scenario" },
+              ...RUBRIC_SCORE_PROPERTIES
+            },
+            required: ["keyPoint", "score", "justification"]
+          }
+        },
+        tone: RUBRIC_SCORE_SCHEMA,
+        grammar: RUBRIC_SCORE_SCHEMA,
+        clarity: RUBRIC_SCORE_SCHEMA,
+        conciseness: RUBRIC_SCORE_SCHEMA
+      },
+      required: ["keyPoints", "tone", "grammar", "clarity", "conciseness"]
+    },
+    critique: { type: Type.STRING, description: "Constructive feedback on the user's writing in Japanese." },
+    improvedVersion: { type: Type.STRING, description: "A native-level rewrite of the user's message in English." },
+    grammarMistakes: {
+      type: Type.ARRAY,
+      description: "List of specific grammar or vocabulary errors.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          original: { type: Type.STRING, description: "The erroneous sentence or phrase, quoted exactly from the user's draft" },
+          corrected: { type: Type.STRING, description: "The corrected sentence or phrase in English" },
+          explanation: { type: Type.STRING, description: "Why it was wrong (in Japanese)" }
+        },
+        required: ["original", "corrected", "explanation"]
+      }
+    }
+  },
+  required: ["rubric", "critique", "improvedVersion", "grammarMistakes"],
+  // Prose first, so it can be streamed to the learner while the rubric is still being written
+  propertyOrdering: ["critique", "improvedVersion", "grammarMistakes", "rubric"]
+};
+
+// Turns the raw text streamed so far into the feedback fields that can already be shown.
+const toPartialFeedback = (text: string): PartialWritingFeedback => ({
+  critique: readPartialString(text, 'critique'),
+  improvedVersion: readPartialString(text, 'improvedVersion')
+});
+
+const evaluateWriting = async (
+  params: GenerationParams,
+  scenario: WritingScenario,
+  userDraft: string,
+  onProgress?: ProgressHandler,
+  signal?: AbortSignal
+): Promise<WritingFeedback> => {
+  Logger.info("Evaluating User Draft");
+  const pack = findPackFor(scenario.topic);
+  const prompt = `ソフトウェアエンジニアによる英語の書き込みを評価してください。
+  学習者の想定語彙レベル: ${VOCABULARY_GUIDE[params.vocabularyBand]}
+  このレベルの学習者に期待される水準を基準に採点してください。
+  
+  シナリオの背景: ${scenario.context}
+  ゴール (日本語): ${scenario.goal}
+  受信者: ${scenario.recipientRole}
+  必須ポイント: ${JSON.stringify(scenario.keyPoints)}
+  
+  ユーザーのドラフト: "${userDraft}"
+  
+  出力要件:
+  1. 'rubric': 以下の観点ごとに 0-100点 と、日本語の短い根拠 'justification' を出力してください。
+     - 'keyPoints': 必須ポイントそれぞれについて、同じ順序で1件ずつ（どの程度盛り込まれているか）。
+     - 'tone': 受信者（${scenario.recipientRole}）に対してトーンが適切か。
+     - 'grammar': 文法・語彙の正確さ。
+     - 'clarity': 結論や依頼事項が明確か。
+     - 'conciseness': 冗長さがなく簡潔か。
+  2. 'improvedVersion': 自然な英語への書き直し。
+  3. 'critique': 日本語で建設的なフィードバックを提供してください。ポイントを説明するために必ず例文を含めてください。
+  4. 'grammarMistakes': 各エラーについて、ドラフトから該当箇所をそのまま引用した 'original'、修正後の 'corrected'、日本語の 'explanation' を出力してください。
+  
+  ${getEvaluationFewShot(pack)}`;
+
+  try {
+    const data = await generateValidated<Omit<WritingFeedback, 'score'> & { rubric: WritingRubric }>("writing feedback", prompt, {
+      responseSchema: FEEDBACK_SCHEMA,
+      abortSignal: signal
+    }, payload => validateWritingFeedback(payload, scenario.keyPoints.length), onProgress && (text => onProgress(toPartialFeedback(text))));
+    const score = computeOverallScore(data.rubric);
+    Logger.info("Evaluation Complete", { score });
+    return { ...data, score };
+
+  } catch (error) {
+    Logger.error("Failed to evaluate writing", error);
+    throw error;
+  }
+};
+
+// --- Code Review ---
+
+const REVIEW_SCENARIO_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ...SCENARIO_SCHEMA.properties,
+    context: { type: Type.STRING, description: "The pull request title and description, written by its author" },
+    recipientRole: { type: Type.STRING, description: "Name and role of the pull request author" },
+    keyPoints: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Review checklist hints that do not reveal the planted issue (in Japanese)" },
+    diff: {
+      type: Type.OBJECT,
+      properties: {
+        filePath: { type: Type.STRING },
+        lines: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              kind: { type: Type.STRING, enum: ["context", "add", "remove"] },
+              text: { type: Type.STRING, description: "Line content without the +/- prefix, indentation preserved" }
+            },
+            required: ["kind", "text"]
+          }
+        }
+      },
+      required: ["filePath", "lines"]
+    },
+    plantedIssues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          line: { type: Type.INTEGER, description: "1-based position in diff.lines of the added line containing the problem" },
+          description: { type: Type.STRING, description: "What is wrong and why (in Japanese)" }
+        },
+        required: ["line", "description"]
+      }
+    }
+  },
+  required: [...(SCENARIO_SCHEMA.required ?? []), "diff", "plantedIssues"]
+};
+
+const generateReviewScenario = async (params: GenerationParams, variables: ScenarioVariables, signal?: AbortSignal): Promise<WritingScenario> => {
+  Logger.info(`Generating Code Review Scenario at rating ${params.targetRating}`, { ...params, ...variables });
+  const difficultyContext = getDifficultyContext(params);
+  const { topic: situation, tone } = variables;
+  const pack = findPackFor(situation);
+
+  const prompt = `ソフトウェアエンジニアがコードレビューのコメントを英語で書く練習のためのシナリオを作成してください。
+  ${difficultyContext}
+  (語彙とメッセージ長の目安は 'context' のプルリクエスト説明に適用してください。)
+  
+  シナリオ変数:
+  - シチュエーション: ${situation}
+  - レビュー相手とのやり取りのトーン: ${tone}
+  
+  出力要件:
+  1. 'diff': 1ファイル分、15〜35行程度の小さな unified diff。'lines' の各要素は 'kind'（context / add / remove）と、先頭の +/- を除いた 'text'。
+  2. 'plantedIssues': 追加行 (kind が add の行) に、レビューで指摘すべき実際の問題を1〜2個仕込んでください（例: null チェック漏れ、off-by-one、リソースリーク、エラーの握りつぶし、N+1 クエリ）。'line' は 'diff.lines' 内の1始まりの位置です。コード上のコメントなどで問題を示唆しないでください。
+  3. 'context': 英語で書かれたプルリクエストのタイトルと説明。
+  4. 'recipientRole': プルリクエスト作成者の名前と役割。
+  5. 'goal' と 'keyPoints' は日本語で記述してください。'keyPoints' は仕込んだ問題を明かさないレビュー観点のヒントにしてください。
+  ${getGlossaryContext(pack)}`;
+
+  try {
+    const data = await generateValidated<WritingScenario>("code review scenario", prompt, {
+      responseSchema: REVIEW_SCENARIO_SCHEMA,
+      abortSignal: signal
+    }, validateReviewScenario);
+    Logger.info("Code Review Scenario Generated Successfully", { file: data.diff?.filePath, issues: data.plantedIssues?.length });
+    return { ...data, format: 'review', topic: situation, tone };
+
+  } catch (error) {
+    Logger.error("Failed to generate code review scenario", error);
+    throw error;
+  }
+};
+
+const REVIEW_FEEDBACK_SCHEMA: Schema = {
+  ...FEEDBACK_SCHEMA,
+  properties: {
+    ...FEEDBACK_SCHEMA.properties,
+    improvedVersion: { type: Type.STRING, description: "A model set of review comments in English, one per line as 'L<line> [severity] comment'" },
+    commentFeedback: {
+      type: Type.ARRAY,
+      description: "One entry per learner comment",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          line: { type: Type.INTEGER, description: "The line the learner's comment is anchored to" },
+          clarity: RUBRIC_SCORE_SCHEMA,
+          politeness: RUBRIC_SCORE_SCHEMA,
+          suggestedSeverity: { type: Type.STRING, enum: ["nit", "suggestion", "blocking"] },
+          identifiesIssue: { type: Type.BOOLEAN, description: "Whether the comment points out a planted issue" },
+          improvedComment: { type: Type.STRING, description: "A native-level rewrite of the comment in English" }
+        },
+        required: ["line", "clarity", "politeness", "suggestedSeverity", "identifiesIssue", "improvedComment"]
+      }
+    }
+  },
+  required: [...(FEEDBACK_SCHEMA.required ?? []), "commentFeedback"],
+  propertyOrdering: ["critique", "improvedVersion", "commentFeedback", "grammarMistakes", "rubric"]
+};
+
+const evaluateReview = async (
+  params: GenerationParams,
+  scenario: WritingScenario,
+  comments: ReviewComment[],
+  onProgress?: ProgressHandler,
+  signal?: AbortSignal
+): Promise<WritingFeedback> => {
+  Logger.info("Evaluating Review Comments", { count: comments.length });
+  if (!scenario.diff || !scenario.plantedIssues) {
+    throw new Error("Scenario has no diff to review.");
+  }
+  const plantedIssues = scenario.plantedIssues;
+  const commentList = sortComments(comments).map(c => `- L${c.line} [${c.severity}] ${c.text}`).join('\n  ');
+
+  const prompt = `ソフトウェアエンジニアが英語で書いたコードレビューのコメントを評価してください。
+  学習者の想定語彙レベル: ${VOCABULARY_GUIDE[params.vocabularyBand]}
+  このレベルの学習者に期待される水準を基準に採点してください。
+  
+  プルリクエスト: ${scenario.context}
+  作成者: ${scenario.recipientRole}
+  
+  diff (行番号付き):
+  ${formatNumberedDiff(scenario.diff)}
+  
+  仕込まれた問題 (学習者には非公開):
+  ${plantedIssues.map((issue, i) => `${i + 1}. L${issue.line}: ${issue.description}`).join('\n  ')}
+  
+  学習者のコメント (L<行番号> [重要度] 本文):
+  ${commentList}
+  
+  出力要件:
+  1. 'commentFeedback': 学習者のコメントそれぞれについて1件ずつ、'line' にそのコメントの行番号を入れてください。
+     - 'clarity': 何が問題で、どう直してほしいかが明確か (0-100点と日本語の根拠)。
+     - 'politeness': 作成者への敬意があり建設的か。nit / suggestion / blocking の重要度ラベルが問題の深刻さに合っているかも含めて採点してください (0-100点と日本語の根拠)。
+     - 'suggestedSeverity': この指摘にふさわしい重要度。
+     - 'identifiesIssue': 仕込まれた問題のいずれかを正しく指摘しているか。
+     - 'improvedComment': 自然な英語のレビューコメントへの書き直し。
+  2. 'rubric':
+     - 'keyPoints': 仕込まれた問題それぞれについて、同じ順序で1件ずつ。'keyPoint' は問題の説明、'score' は学習者がどの程度正しく指摘できたか。
+     - 'tone': 作成者 (${scenario.recipientRole}) に対するレビュー全体のトーンが適切か。
+     - 'grammar', 'clarity', 'conciseness': コメント全体の文法・明確さ・簡潔さ。
+  3. 'improvedVersion': 模範となるレビューコメント一式 (英語、'L<行番号> [重要度] 本文' 形式で1行ずつ)。
+  4. 'critique': 日本語で建設的なフィードバック。見逃した問題があれば説明してください。
+  5. 'grammarMistakes': 各エラーについて、コメントから該当箇所をそのまま引用した 'original'、修正後の 'corrected'、日本語の 'explanation'。`;
+
+  try {
+    const data = await generateValidated<Omit<WritingFeedback, 'score'> & { rubric: WritingRubric }>("review feedback", prompt, {
+      responseSchema: REVIEW_FEEDBACK_SCHEMA,
+      abortSignal: signal
+    }, payload => validateReviewFeedback(payload, plantedIssues.length, comments.map(c => c.line)), onProgress && (text => onProgress(toPartialFeedback(text))));
+    const score = computeOverallScore(data.rubric);
+    Logger.info("Review Evaluation Complete", { score });
+    return { ...data, score };
+
+  } catch (error) {
+    Logger.error("Failed to evaluate review comments", error);
+    throw error;
+  }
+};
+
+// --- Speaking ---
+
+const SPEAKING_FEEDBACK_SCHEMA: Schema = {
+  ...FEEDBACK_SCHEMA,
+  properties: {
+    ...FEEDBACK_SCHEMA.properties,
+    improvedVersion: { type: Type.STRING, description: "How a native engineer would say it out loud, in English" },
+    spokenIssues: {
+      type: Type.ARRAY,
+      description: "Delivery problems in the transcript; empty if there are none",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ["filler", "longSentence", "structure"] },
+          excerpt: { type: Type.STRING, description: "The words quoted exactly from the transcript" },
+          suggestion: { type: Type.STRING, description: "How to say it instead (in Japanese)" }
+        },
+        required: ["kind", "excerpt", "suggestion"]
+      }
+    }
+  },
+  required: [...(FEEDBACK_SCHEMA.required ?? []), "spokenIssues"],
+  propertyOrdering: ["critique", "improvedVersion", "spokenIssues", "grammarMistakes", "rubric"]
+};
+
+const evaluateSpeaking = async (
+  params: GenerationParams,
+  scenario: WritingScenario,
+  transcript: string,
+  onProgress?: ProgressHandler,
+  signal?: AbortSignal
+): Promise<WritingFeedback> => {
+  Logger.info("Evaluating Spoken Response");
+  const prompt = `ソフトウェアエンジニアが英語で話した内容を、音声認識による書き起こしから評価してください。
+  学習者の想定語彙レベル: ${VOCABULARY_GUIDE[params.vocabularyBand]}
+  このレベルの学習者に期待される水準を基準に採点してください。
+  書き起こしには句読点や大文字・小文字が正しく付いていないことがあります。句読点・綴り・大文字小文字は減点せず、話し言葉として評価してください。
+
+  シナリオの背景: ${scenario.context}
+  ゴール (日本語): ${scenario.goal}
+  聞き手: ${scenario.recipientRole}
+  必須ポイント: ${JSON.stringify(scenario.keyPoints)}
+
+  書き起こし: "${transcript}"
+
+  出力要件:
+  1. 'rubric': 以下の観点ごとに 0-100点 と、日本語の短い根拠 'justification' を出力してください。
+     - 'keyPoints': 必須ポイントそれぞれについて、同じ順序で1件ずつ（どの程度話せているか）。
+     - 'tone': 聞き手（${scenario.recipientRole}）に対して口頭でのトーンが適切か。
+     - 'grammar': 話し言葉としての文法・語彙の正確さ。
+     - 'clarity': 結論から話すなど、聞き手が一度聞いただけで理解できる構成か。
+     - 'conciseness': フィラーや言い直し、長すぎる文がなく簡潔か。
+  2. 'spokenIssues': 話し方の問題を、書き起こしからそのまま引用した 'excerpt' と日本語の 'suggestion' で列挙してください。問題がなければ空配列にしてください。
+     - 'filler': um, uh, you know, I mean, basically などのフィラーや不要な言い直し。
+     - 'longSentence': 30語を超える文や、and / so でいつまでもつながる文。
+     - 'structure': 結論が最後まで出てこない、話題が行き来するなど、構成が分かりにくい箇所。
+  3. 'improvedVersion': ネイティブのエンジニアが口頭で話す自然な英語（短い文で、結論から）。
+  4. 'critique': 日本語で建設的なフィードバックを提供してください。ポイントを説明するために必ず例文を含めてください。
+  5. 'grammarMistakes': 各エラーについて、書き起こしから該当箇所をそのまま引用した 'original'、修正後の 'corrected'、日本語の 'explanation' を出力してください。`;
+
+  try {
+    const data = await generateValidated<Omit<WritingFeedback, 'score'> & { rubric: WritingRubric }>("speaking feedback", prompt, {
+      responseSchema: SPEAKING_FEEDBACK_SCHEMA,
+      abortSignal: signal
+    }, payload => validateSpeakingFeedback(payload, scenario.keyPoints.length, transcript), onProgress && (text => onProgress(toPartialFeedback(text))));
+    const score = computeOverallScore(data.rubric);
+    Logger.info("Speaking Evaluation Complete", { score, issues: data.spokenIssues?.length });
+    return { ...data, score };
+
+  } catch (error) {
+    Logger.error("Failed to evaluate spoken response", error);
+    throw error;
+  }
+};
+
+// --- Role-Play ---
+
+const ROLE_PLAY_REPLY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    message: { type: Type.STRING, description: "The partner's next chat message, in character and in English" },
+    goalMet: { type: Type.BOOLEAN, description: "Whether the learner has achieved the scenario goal" }
+  },
+  required: ["message", "goalMet"]
+};
+
+const replyInRolePlay = async (params: GenerationParams, scenario: WritingScenario, conversation: RolePlayTurn[], signal?: AbortSignal): Promise<RolePlayReply> => {
+  const learnerTurns = getLearnerMessages(conversation).length;
+  Logger.info("Generating Role-Play Reply", { turn: learnerTurns });
+  const lastTurn = learnerTurns >= MAX_ROLE_PLAY_TURNS;
+
+  const prompt = `英語のチャットでのロールプレイで、あなたは「${scenario.recipientRole}」を演じます。相手はソフトウェアエンジニアの英語学習者です。
+  語彙レベル: ${VOCABULARY_GUIDE[params.vocabularyBand]}
+
+  状況: ${scenario.context}
+  あなたの話し方のトーン: ${scenario.tone ?? 'ビジネスとして自然なトーン'}
+  学習者のゴール (日本語): ${scenario.goal}
+  学習者が伝えるべきポイント: ${JSON.stringify(scenario.keyPoints)}
+
+  これまでの会話:
+  ${formatConversation(conversation, scenario.recipientRole)}
+
+  出力要件:
+  1. 'message': 役になりきった、次の英語のチャットメッセージ（3文以内）。英語の誤りを指摘したり、英語学習に触れたりしないでください。
+  2. 現実の同僚のように、すぐには同意せず質問や懸念を返してください。ただし学習者が必要なポイントを伝え、妥当な提案をしたら受け入れてください。
+  3. 'goalMet': 学習者のゴールが達成されていれば true。
+  ${lastTurn ? "4. これが最後のメッセージです。結論が出ていなくても、次のアクションを確認して会話を自然に締めくくってください。" : ""}`;
+
+  try {
+    const data = await generateValidated<RolePlayReply>("role-play reply", prompt, {
+      responseSchema: ROLE_PLAY_REPLY_SCHEMA,
+      abortSignal: signal
+    }, validateRolePlayReply);
+    Logger.info("Role-Play Reply Generated", { goalMet: data.goalMet });
+    return data;
+
+  } catch (error) {
+    Logger.error("Failed to generate role-play reply", error);
+    throw error;
+  }
+};
+
+const ROLE_PLAY_FEEDBACK_SCHEMA: Schema = {
+  ...FEEDBACK_SCHEMA,
+  properties: {
+    ...FEEDBACK_SCHEMA.properties,
+    improvedVersion: { type: Type.STRING, description: "Native-level rewrites of the learner's messages in English, in order, separated by blank lines" },
+    turnNotes: {
+      type: Type.ARRAY,
+      description: "One entry per learner message",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          turn: { type: Type.INTEGER, description: "The learner message number shown as [n] in the conversation" },
+          note: { type: Type.STRING, description: "What worked and what to change in that message (in Japanese)" }
+        },
+        required: ["turn", "note"]
+      }
+    }
+  },
+  required: [...(FEEDBACK_SCHEMA.required ?? []), "turnNotes"],
+  propertyOrdering: ["critique", "improvedVersion", "turnNotes", "grammarMistakes", "rubric"]
+};
+
+const evaluateRolePlay = async (
+  params: GenerationParams,
+  scenario: WritingScenario,
+  conversation: RolePlayTurn[],
+  onProgress?: ProgressHandler,
+  signal?: AbortSignal
+): Promise<WritingFeedback> => {
+  const learnerTurns = getLearnerMessages(conversation).length;
+  Logger.info("Evaluating Role-Play Conversation", { turns: learnerTurns });
+  const prompt = `ソフトウェアエンジニアの英語学習者が、チャットで「${scenario.recipientRole}」とやり取りしたロールプレイを評価してください。
+  学習者の想定語彙レベル: ${VOCABULARY_GUIDE[params.vocabularyBand]}
+  このレベルの学習者に期待される水準を基準に採点してください。評価の対象は学習者のメッセージのみです。
+
+  シナリオの背景: ${scenario.context}
+  ゴール (日本語): ${scenario.goal}
+  必須ポイント: ${JSON.stringify(scenario.keyPoints)}
+
+  会話 ([番号] が学習者のメッセージ):
+  ${formatConversation(conversation, scenario.recipientRole)}
+
+  出力要件:
+  1. 'rubric': 会話全体について、以下の観点ごとに 0-100点 と、日本語の短い根拠 'justification' を出力してください。
+     - 'keyPoints': 必須ポイントそれぞれについて、同じ順序で1件ずつ（会話の中でどの程度伝えられたか）。
+     - 'tone': 相手（${scenario.recipientRole}）に対してトーンが適切か。相手の質問や反論への応じ方も含めてください。
+     - 'grammar': 文法・語彙の正確さ。
+     - 'clarity': 依頼や提案が明確で、ゴールに向けて会話を進められているか。
+     - 'conciseness': 冗長さがなく簡潔か。
+  2. 'turnNotes': 学習者のメッセージ ${learnerTurns} 件それぞれについて、'turn' に番号、'note' に良かった点と改善点を日本語で1〜2文。
+  3. 'improvedVersion': 学習者の各メッセージのネイティブ版を、同じ順序で空行区切りで。
+  4. 'critique': 会話全体の進め方について、日本語で建設的なフィードバックを提供してください。ポイントを説明するために必ず例文を含めてください。
+  5. 'grammarMistakes': 各エラーについて、学習者のメッセージから該当箇所をそのまま引用した 'original'、修正後の 'corrected'、日本語の 'explanation' を出力してください。`;
+
+  try {
+    const data = await generateValidated<Omit<WritingFeedback, 'score'> & { rubric: WritingRubric }>("role-play feedback", prompt, {
+      responseSchema: ROLE_PLAY_FEEDBACK_SCHEMA,
+      abortSignal: signal
+    }, payload => validateRolePlayFeedback(payload, scenario.keyPoints.length, learnerTurns), onProgress && (text => onProgress(toPartialFeedback(text))));
+    const score = computeOverallScore(data.rubric);
+    Logger.info("Role-Play Evaluation Complete", { score });
+    return { ...data, score };
+
+  } catch (error) {
+    Logger.error("Failed to evaluate role-play", error);
+    throw error;
+  }
+};
+
+const TERM_DEFINITION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    term: { type: Type.STRING, description: "The selected word or phrase in its dictionary form" },
+    definition: { type: Type.STRING, description: "Meaning in this context (in Japanese)" },
+    usageNote: { type: Type.STRING, description: "Nuance, register or common collocations (in Japanese)" },
+    example: { type: Type.STRING, description: "A new English example sentence from a software engineering context" }
+  },
+  required: ["term", "definition", "usageNote", "example"]
+};
+
+const defineTerm = async (term: string, context: string, signal?: AbortSignal): Promise<TermDefinition> => {
+  Logger.info("Defining term", { term });
+  const prompt = `ソフトウェアエンジニアの英語学習者が、以下の文中の語句を選択しました。意味を説明してください。
+  
+  語句: "${term}"
+  文脈: "${context}"
+  
+  出力要件:
+  1. 'term': 語句の辞書形（例: "rolled back" なら "roll back"）。
+  2. 'definition': この文脈での意味を日本語で簡潔に。
+  3. 'usageNote': ニュアンス、フォーマル度、よく一緒に使われる語などを日本語で1〜2文。
+  4. 'example': エンジニアの業務で使われる新しい英語の例文を1つ（文脈の文をそのまま使わないでください）。`;
+
+  try {
+    const data = await generateValidated<TermDefinition>("term definition", prompt, {
+      responseSchema: TERM_DEFINITION_SCHEMA,
+      abortSignal: signal
+    }, validateTermDefinition);
+    Logger.info("Term Defined", { term: data.term });
+    return data;
+
+  } catch (error) {
+    Logger.error("Failed to define term", error);
+    throw error;
+  }
+};
+
+export const geminiProvider: ExerciseProvider = {
+  id: 'gemini',
+  generateReadingExercise,
+  generateThreadExercise,
+  generateListeningExercise,
+  generateReadingFromText,
+  generateWritingScenario,
+  evaluateWriting,
+  evaluateSpeaking,
+  replyInRolePlay,
+  evaluateRolePlay,
+  generateReviewScenario,
+  evaluateReview,
+  defineTerm
+};
@@ -0,0 +1,7 @@
+import { DifficultyTier } from "../types";
+
+export const getTier = (level: number): DifficultyTier => {
+  if (level <= 20) return DifficultyTier.BEGINNER;
+  if (level <= 40) return DifficultyTier.INTERMEDIATE;
+  return DifficultyTier.ADVANCED;
+};
@@ -0,0 +1,131 @@
+import { ExerciseResult, GenerationParams, MockTestItemResult, MockTestResult, MockTestSkill, MockTestSkillResult, ReadingExercise, ScenarioVariables, WritingFeedback, WritingScenario } from "../types";
+import { fitRating, getParamsForRating, getVocabularyBand } from "./difficulty";
+import { EMPTY_FOCUS, getTopicKey, pickExerciseVariables } from "./scenarioPicker";
+import { generateReadingExercise, generateWritingScenario, evaluateWriting } from "./geminiService";
+import { getSubScores } from "./rubric";
+import { Logger } from "./logger";
+
+// Unlike practice, every test has the same shape: a fixed set of items spread across
+// the rating scale, so one sitting can place anyone from A2 to C2.
+
+export const MOCK_TEST_TIME_LIMIT_SECONDS = 35 * 60;
+
+const BLUEPRINT: { skill: MockTestSkill; difficulty: number }[] = [
+  { skill: 'reading', difficulty: 950 },
+  { skill: 'reading', difficulty: 1250 },
+  { skill: 'reading', difficulty: 1550 },
+  { skill: 'reading', difficulty: 1850 },
+  { skill: 'writing', difficulty: 1150 },
+  { skill: 'writing', difficulty: 1700 }
+];
+
+export const MOCK_TEST_ITEM_COUNTS: Record<MockTestSkill, number> = {
+  reading: BLUEPRINT.filter(item => item.skill === 'reading').length,
+  writing: BLUEPRINT.filter(item => item.skill === 'writing').length
+};
+
+// Drafts shorter than this are scored 0 without being sent for grading.
+const MIN_DRAFT_LENGTH = 10;
+
+// An item as the learner works on it; answers and drafts are filled in during the test.
+export type MockTestItem =
+  | { skill: 'reading'; difficulty: number; params: GenerationParams; exercise: ReadingExercise; answers: number[] }
+  | { skill: 'writing'; difficulty: number; params: GenerationParams; scenario: WritingScenario; draft: string };
+
+const formatFor = (skill: MockTestSkill) => (skill === 'reading' ? 'email' : 'message');
+
+// Picked one after another, each excluding the topics already taken, so no two items in a
+// sitting share a topic. Falls back to the full pool if the exclusions would empty it.
+const pickTestVariables = (history: ExerciseResult[]): ScenarioVariables[] => {
+  const taken: string[] = [];
+  return BLUEPRINT.map(({ skill }) => {
+    const focus = { ...EMPTY_FOCUS, [getTopicKey(skill)]: { include: [], exclude: [...taken] } };
+    const variables = pickExerciseVariables(skill, formatFor(skill), focus, history)
+      ?? pickExerciseVariables(skill, formatFor(skill), EMPTY_FOCUS, history);
+    if (!variables) throw new Error(`No ${skill} topics available for the mock test.`);
+    taken.push(variables.topic);
+    return variables;
+  });
+};
+
+const generateItem = async (skill: MockTestSkill, difficulty: number, variables: ScenarioVariables, signal?: AbortSignal): Promise<MockTestItem> => {
+  const params = getParamsForRating(difficulty);
+  if (skill === 'reading') {
+    const exercise = await generateReadingExercise(params, variables, signal);
+    return { skill, difficulty, params, exercise, answers: new Array(exercise.questions.length).fill(-1) };
+  }
+  return { skill, difficulty, params, scenario: await generateWritingScenario(params, variables, signal), draft: '' };
+};
+
+// Generates every item up front so the clock only starts once the whole test is ready.
+export const prepareMockTest = async (
+  history: ExerciseResult[],
+  onProgress: (ready: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<MockTestItem[]> => {
+  Logger.info("Preparing mock test", { items: BLUEPRINT.length });
+  const variables = pickTestVariables(history);
+  let ready = 0;
+  return Promise.all(BLUEPRINT.map(async ({ skill, difficulty }, i) => {
+    const item = await generateItem(skill, difficulty, variables[i], signal);
+    onProgress(++ready, BLUEPRINT.length);
+    return item;
+  }));
+};
+
+export const isItemAnswered = (item: MockTestItem): boolean =>
+  item.skill === 'reading' ? !item.answers.includes(-1) : item.draft.trim().length >= MIN_DRAFT_LENGTH;
+
+export interface ScoredMockTestItem {
+  result: MockTestItemResult;
+  feedback?: WritingFeedback; // Writing items that were graded
+}
+
+// Reading is scored locally; writing drafts are graded in parallel once the test ends.
+export const scoreMockTest = (items: MockTestItem[], signal?: AbortSignal): Promise<ScoredMockTestItem[]> =>
+  Promise.all(items.map(async (item): Promise<ScoredMockTestItem> => {
+    if (item.skill === 'reading') {
+      const correct = item.exercise.questions.filter((q, i) => item.answers[i] === q.correctIndex).length;
+      return {
+        result: {
+          skill: 'reading',
+          difficulty: item.difficulty,
+          score: Math.round((correct / item.exercise.questions.length) * 100),
+          title: item.exercise.subject
+        }
+      };
+    }
+    const base = { skill: 'writing' as const, difficulty: item.difficulty, title: item.scenario.recipientRole };
+    if (!isItemAnswered(item)) return { result: { ...base, score: 0 } };
+    const feedback = await evaluateWriting(item.params, item.scenario, item.draft, undefined, signal);
+    return {
+      result: { ...base, score: feedback.score, subScores: feedback.rubric ? getSubScores(feedback.rubric) : undefined },
+      feedback
+    };
+  }));
+
+const summarizeSkill = (results: MockTestItemResult[]): MockTestSkillResult => {
+  const rating = fitRating(results);
+  const score = results.length > 0 ? Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length) : 0;
+  return { band: getVocabularyBand(rating), rating, score };
+};
+
+export const buildMockTestResult = (
+  items: MockTestItemResult[],
+  session: { level: number; durationSeconds: number; timedOut: boolean }
+): MockTestResult => ({
+  id: Date.now().toString(),
+  date: new Date().toISOString(),
+  timeLimitSeconds: MOCK_TEST_TIME_LIMIT_SECONDS,
+  ...session,
+  items,
+  skills: {
+    reading: summarizeSkill(items.filter(i => i.skill === 'reading')),
+    writing: summarizeSkill(items.filter(i => i.skill === 'writing'))
+  }
+});
+
+export const formatDuration = (seconds: number): string => {
+  const clamped = Math.max(0, Math.round(seconds));
+  return `${Math.floor(clamped / 60)}:${String(clamped % 60).padStart(2, '0')}`;
+};
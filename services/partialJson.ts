@@ -0,0 +1,33 @@
+// Reads string fields out of a JSON document that is still being streamed, so
+// text can be shown before the payload is complete enough to parse.
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+// Value of the first `"key": "..."` in `json`, decoded up to the closing quote or, if the
+// string is still open, up to the last complete character. Undefined until the value starts.
+export const readPartialString = (json: string, key: string): string | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(json);
+  if (!match) return undefined;
+
+  let value = '';
+  for (let i = match.index + match[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') return value;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+    const next = json[i + 1];
+    if (next === undefined) break; // Escape split across chunks
+    if (next === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+};
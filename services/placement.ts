@@ -0,0 +1,62 @@
+import { DifficultyTier, ReadingExercise, VocabularyBand } from "../types";
+import { fitRating, getVocabularyBand, ratingToLevel } from "./difficulty";
+import { getTier } from "./levels";
+
+// A new learner reads a few items that move up or down depending on how the last one went,
+// then writes one sample pitched at the reading estimate. Every answer is a result on an item
+// of known difficulty, so the level comes from the same fit the mock test uses.
+
+export const PLACEMENT_READING_ITEMS = 3;
+
+// The first item sits mid-scale; each later one moves half as far as the one before.
+const START_RATING = 1400;
+const FIRST_STEP = 300;
+
+// Scores at or above this send the next item up.
+const PASS_SCORE = 60;
+
+export type PlacementSkill = 'reading' | 'writing';
+
+export interface PlacementScore {
+  skill: PlacementSkill;
+  difficulty: number;
+  score: number;
+}
+
+export interface PlacementResult {
+  level: number;
+  tier: DifficultyTier;
+  rating: number;
+  skills: Record<PlacementSkill, { rating: number; band: VocabularyBand }>;
+}
+
+// Difficulty of the next reading item, given the reading results so far
+export const nextReadingDifficulty = (results: PlacementScore[]): number =>
+  results.reduce((rating, r, i) => {
+    const step = FIRST_STEP / Math.pow(2, i);
+    return r.score >= PASS_SCORE ? rating + step : rating - step;
+  }, START_RATING);
+
+export const scoreReadingItem = (exercise: ReadingExercise, answers: number[]): number => {
+  const correct = exercise.questions.filter((q, i) => answers[i] === q.correctIndex).length;
+  return Math.round((correct / exercise.questions.length) * 100);
+};
+
+const placeSkill = (results: PlacementScore[]) => {
+  const rating = fitRating(results);
+  return { rating, band: getVocabularyBand(rating) };
+};
+
+export const buildPlacementResult = (results: PlacementScore[]): PlacementResult => {
+  const rating = fitRating(results);
+  const level = ratingToLevel(rating);
+  return {
+    level,
+    tier: getTier(level),
+    rating,
+    skills: {
+      reading: placeSkill(results.filter(r => r.skill === 'reading')),
+      writing: placeSkill(results.filter(r => r.skill === 'writing'))
+    }
+  };
+};
@@ -0,0 +1,219 @@
+import { ExerciseFocus, ExerciseFormat, ExerciseResult, GenerationParams, ReadingExercise, ScenarioVariables, WritingScenario } from "../types";
+import { SkillType } from "./analytics";
+import { generateReadingExercise, generateThreadExercise, generateListeningExercise, generateWritingScenario, generateReviewScenario } from "./geminiService";
+import { EMPTY_FOCUS, pickExerciseVariables } from "./scenarioPicker";
+import { getEnabledPackIds } from "./scenarioCatalog";
+import { Logger } from "./logger";
+import { isObject } from "./responseValidator";
+
+// Exercises kept ready per skill, so starting one doesn't wait on the model.
+export const PREFETCH_DEPTH = 2;
+
+const STORAGE_KEY = 'techcomm-prefetch';
+
+// What to prefetch for each skill: the focus and format the learner last started with.
+export interface PrefetchTarget {
+  type: SkillType;
+  format: ExerciseFormat;
+  focus: ExerciseFocus;
+}
+
+// Learner state the queue generates against; refreshed by the app whenever it changes.
+export interface PrefetchContext {
+  level: number;
+  history: ExerciseResult[];
+  params: Record<SkillType, GenerationParams>;
+}
+
+export type PrefetchEntry = {
+  key: string;
+  params: GenerationParams; // Recorded so the exercise is graded and logged at the difficulty it was built for
+  variables: ScenarioVariables;
+  createdAt: string;
+} & (
+  | { type: 'reading'; exercise: ReadingExercise }
+  | { type: 'writing'; scenario: WritingScenario }
+  | { type: 'listening'; exercise: ReadingExercise }
+);
+
+interface PrefetchState {
+  targets: Record<SkillType, PrefetchTarget>;
+  entries: PrefetchEntry[];
+}
+
+const DEFAULT_TARGETS: Record<SkillType, PrefetchTarget> = {
+  reading: { type: 'reading', format: 'email', focus: EMPTY_FOCUS },
+  writing: { type: 'writing', format: 'message', focus: EMPTY_FOCUS },
+  listening: { type: 'listening', format: 'voicemail', focus: EMPTY_FOCUS }
+};
+
+let state: PrefetchState | null = null;
+let context: PrefetchContext | null = null;
+let filling = false;
+const listeners = new Set<() => void>();
+
+// --- Persistence ---
+
+const isValidTarget = (target: unknown, type: SkillType): target is PrefetchTarget =>
+  isObject(target) && target.type === type && typeof target.format === 'string' && isObject(target.focus);
+
+const isValidEntry = (entry: unknown): entry is PrefetchEntry =>
+  isObject(entry) &&
+  typeof entry.key === 'string' &&
+  isObject(entry.params) &&
+  isObject(entry.variables) &&
+  (((entry.type === 'reading' || entry.type === 'listening') && isObject(entry.exercise)) || (entry.type === 'writing' && isObject(entry.scenario)));
+
+// The queue is a cache: anything unreadable is simply discarded and regenerated.
+const load = (): PrefetchState => {
+  if (state) return state;
+  state = { targets: DEFAULT_TARGETS, entries: [] };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (isObject(parsed) && isObject(parsed.targets) && Array.isArray(parsed.entries)) {
+      state = {
+        targets: {
+          reading: isValidTarget(parsed.targets.reading, 'reading') ? parsed.targets.reading : DEFAULT_TARGETS.reading,
+          writing: isValidTarget(parsed.targets.writing, 'writing') ? parsed.targets.writing : DEFAULT_TARGETS.writing,
+          listening: isValidTarget(parsed.targets.listening, 'listening') ? parsed.targets.listening : DEFAULT_TARGETS.listening
+        },
+        entries: parsed.entries.filter(isValidEntry)
+      };
+    }
+  } catch (e) {
+    Logger.warn("Discarding unreadable prefetch queue", e);
+  }
+  return state;
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    Logger.warn("Failed to persist prefetch queue", e);
+  }
+  notify();
+};
+
+// --- Queue ---
+
+// Includes the enabled packs, since topics and examples may come from them
+const entryKey = (target: PrefetchTarget, level: number): string =>
+  JSON.stringify([target.type, target.format, level, target.focus, getEnabledPackIds()]);
+
+const readyFor = (key: string): number => load().entries.filter(e => e.key === key).length;
+
+// Drops entries built for a previous level, focus, format or pack selection.
+const prune = () => {
+  const current = load();
+  if (!context) return;
+  const level = context.level;
+  const validKeys = new Set(Object.values(current.targets).map(t => entryKey(t, level)));
+  const kept = current.entries.filter(e => validKeys.has(e.key));
+  if (kept.length !== current.entries.length) {
+    Logger.info("Invalidated prefetched exercises", { dropped: current.entries.length - kept.length });
+    current.entries = kept;
+    persist();
+  }
+};
+
+const generateEntry = async (target: PrefetchTarget, ctx: PrefetchContext): Promise<PrefetchEntry | null> => {
+  const variables = pickExerciseVariables(target.type, target.format, target.focus, ctx.history);
+  if (!variables) return null;
+  const params = ctx.params[target.type];
+  const base = { key: entryKey(target, ctx.level), params, variables, createdAt: new Date().toISOString() };
+
+  if (target.type === 'reading') {
+    const generate = target.format === 'thread' ? generateThreadExercise : generateReadingExercise;
+    return { ...base, type: 'reading', exercise: await generate(params, variables) };
+  }
+  if (target.type === 'listening') {
+    const format = target.format === 'meeting' ? 'meeting' : 'voicemail';
+    return { ...base, type: 'listening', exercise: await generateListeningExercise(params, variables, format) };
+  }
+  const generate = target.format === 'review' ? generateReviewScenario : generateWritingScenario;
+  const scenario = await generate(params, variables);
+  const answeredAs = target.format === 'spoken' || target.format === 'roleplay' ? target.format : undefined;
+  return { ...base, type: 'writing', scenario: answeredAs ? { ...scenario, format: answeredAs } : scenario };
+};
+
+// Generates one exercise at a time until every target is topped up. Stops at the first
+// failure; the next refresh tries again.
+const fill = async () => {
+  if (filling) return;
+  filling = true;
+  // Targets whose focus leaves no topic to pick; skipped so the others still get filled
+  const unfillable = new Set<string>();
+  try {
+    while (context) {
+      const ctx = context;
+      const target = Object.values(load().targets)
+        .find(t => !unfillable.has(entryKey(t, ctx.level)) && readyFor(entryKey(t, ctx.level)) < PREFETCH_DEPTH);
+      if (!target) break;
+
+      const entry = await generateEntry(target, ctx);
+      if (!entry) {
+        unfillable.add(entryKey(target, ctx.level));
+        continue;
+      }
+      // The level or focus may have moved on while the model was working
+      const latest = context;
+      if (latest && entryKey(load().targets[entry.type], latest.level) === entry.key) {
+        load().entries.push(entry);
+        persist();
+        Logger.info(`Prefetched ${entry.type} exercise`, { ready: readyFor(entry.key) });
+      }
+    }
+  } catch (e) {
+    Logger.warn("Prefetching failed; will retry on the next refresh", e);
+  } finally {
+    filling = false;
+  }
+};
+
+// --- Public API ---
+
+export const refreshPrefetchQueue = (next: PrefetchContext) => {
+  context = next;
+  prune();
+  notify();
+  void fill();
+};
+
+export const getPrefetchTarget = (type: SkillType): PrefetchTarget => load().targets[type];
+
+// Records the learner's latest choice; entries for the previous focus or format are dropped.
+export const setPrefetchTarget = (target: PrefetchTarget) => {
+  const current = load();
+  current.targets = { ...current.targets, [target.type]: target };
+  persist();
+  prune();
+  void fill();
+};
+
+// Removes and returns a ready exercise matching the request, or null if none is queued.
+export const takePrefetched = (target: PrefetchTarget): PrefetchEntry | null => {
+  if (!context) return null;
+  const key = entryKey(target, context.level);
+  const current = load();
+  const index = current.entries.findIndex(e => e.key === key);
+  if (index === -1) return null;
+  const [entry] = current.entries.splice(index, 1);
+  persist();
+  void fill();
+  return entry;
+};
+
+export const countPrefetched = (): Record<SkillType, number> => {
+  const level = context?.level;
+  const count = (type: SkillType) => (level === undefined ? 0 : readyFor(entryKey(getPrefetchTarget(type), level)));
+  return { reading: count('reading'), writing: count('writing'), listening: count('listening') };
+};
+
+export const subscribePrefetch = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
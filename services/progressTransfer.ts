@@ -0,0 +1,154 @@
+import { UserState, ExerciseResult, ReviewCard, FocusProfile, ScenarioPack, VocabularyEntry, MockTestResult } from "../types";
+import { CURRENT_SCHEMA_VERSION, upgradeUserState } from "./storage";
+import { RUBRIC_DIMENSIONS } from "./rubric";
+import { reviewCardKey } from "./spacedRepetition";
+import { Logger } from "./logger";
+
+const EXPORT_FORMAT = 'techcomm-progress';
+
+export type ImportMode = 'merge' | 'replace';
+
+// The JSON file a learner downloads. schemaVersion follows the storage schema,
+// so files exported by older builds go through the same migrations as local saves.
+interface ProgressExportFile {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  data: UserState;
+}
+
+export class ProgressImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressImportError';
+  }
+}
+
+const datestamp = () => new Date().toISOString().slice(0, 10);
+
+const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Export ---
+
+export const exportProgressJson = (state: UserState) => {
+  const file: ProgressExportFile = {
+    format: EXPORT_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: state
+  };
+  downloadFile(`techcomm-progress-${datestamp()}.json`, JSON.stringify(file, null, 2), 'application/json');
+  Logger.info("Progress exported as JSON", { entries: state.history.length });
+};
+
+const CSV_COLUMNS = ['id', 'date', 'type', 'level', 'score', 'title', ...RUBRIC_DIMENSIONS.map(d => d.key)];
+
+// Text starting like a formula (e.g. an AI-written title "=HYPERLINK(...)") gets a leading
+// apostrophe so spreadsheets show it instead of evaluating it.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number): string => {
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// A human-readable label for the row: the email subject (or call name) or the writing recipient.
+const getEntryTitle = (entry: ExerciseResult): string => {
+  if (entry.transcript?.type === 'reading' || entry.transcript?.type === 'listening') return entry.transcript.exercise.subject;
+  if (entry.transcript?.type === 'writing') return entry.transcript.scenario.recipientRole;
+  return '';
+};
+
+export const buildHistoryCsv = (history: ExerciseResult[]): string => {
+  const rows = history.map(entry => [
+    entry.id,
+    entry.date,
+    entry.type,
+    entry.level,
+    entry.score,
+    getEntryTitle(entry),
+    ...RUBRIC_DIMENSIONS.map(d => entry.subScores?.[d.key] ?? '')
+  ].map(escapeCsv).join(','));
+  // Excel needs the BOM to open UTF-8 (Japanese) text correctly
+  return '\uFEFF' + [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const exportHistoryCsv = (history: ExerciseResult[]) => {
+  downloadFile(`techcomm-history-${datestamp()}.csv`, buildHistoryCsv(history), 'text/csv;charset=utf-8');
+  Logger.info("History exported as CSV", { entries: history.length });
+};
+
+// --- Import ---
+
+// Only the envelope is checked here; the data inside goes through upgradeUserState.
+const isExportFile = (value: unknown): value is Omit<ProgressExportFile, 'data'> & { data: unknown } =>
+  !!value && typeof value === 'object' &&
+  (value as Record<string, unknown>).format === EXPORT_FORMAT &&
+  typeof (value as Record<string, unknown>).schemaVersion === 'number';
+
+export const parseProgressFile = (text: string): UserState => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ProgressImportError("The file is not valid JSON.");
+  }
+
+  if (!isExportFile(parsed)) {
+    throw new ProgressImportError("This is not a TechComm AI progress file.");
+  }
+  if (parsed.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ProgressImportError("This file was exported by a newer version of the app. Please update first.");
+  }
+
+  const { state, dropped, error } = upgradeUserState(parsed.data, parsed.schemaVersion);
+  if (!state) {
+    throw new ProgressImportError(error ?? "The progress data in this file is malformed.");
+  }
+  if (dropped > 0) {
+    Logger.warn(`Skipped ${dropped} malformed entries while importing progress`);
+  }
+  return state;
+};
+
+const unionBy = <T>(current: T[], incoming: T[], keyOf: (item: T) => string, prefer: (a: T, b: T) => T): T[] => {
+  const byKey = new Map(current.map(item => [keyOf(item), item]));
+  incoming.forEach(item => {
+    const existing = byKey.get(keyOf(item));
+    byKey.set(keyOf(item), existing ? prefer(existing, item) : item);
+  });
+  return Array.from(byKey.values());
+};
+
+const unionById = <T extends { id: string }>(current: T[], incoming: T[], prefer: (a: T, b: T) => T): T[] =>
+  unionBy(current, incoming, item => item.id, prefer);
+
+// Merging keeps every exercise from both sides and the more advanced level/XP,
+// so importing an older export never rolls a learner backwards.
+export const mergeUserStates = (current: UserState, incoming: UserState): UserState => {
+  const isAhead = incoming.level > current.level || (incoming.level === current.level && incoming.xp > current.xp);
+  const progress = isAhead ? incoming : current;
+
+  const history = unionById<ExerciseResult>(current.history, incoming.history, (a, b) => (a.transcript ? a : b))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  // Cards are matched like mergeIntoDeck does, since the same mistake gets a different id on each device
+  const reviewDeck = unionBy<ReviewCard>(current.reviewDeck, incoming.reviewDeck, reviewCardKey, (a, b) => (a.repetitions >= b.repetitions ? a : b));
+  const focusProfiles = unionById<FocusProfile>(current.focusProfiles, incoming.focusProfiles, a => a);
+  const scenarioPacks = unionById<ScenarioPack>(current.scenarioPacks, incoming.scenarioPacks, a => a);
+  const vocabulary = unionById<VocabularyEntry>(current.vocabulary, incoming.vocabulary, (a, b) => (a.quizAttempts >= b.quizAttempts ? a : b));
+  const mockTests = unionById<MockTestResult>(current.mockTests, incoming.mockTests, a => a)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { ...current, ...progress, history, reviewDeck, focusProfiles, scenarioPacks, vocabulary, mockTests };
+};
+
+export const applyImport = (current: UserState, incoming: UserState, mode: ImportMode): UserState =>
+  mode === 'replace' ? incoming : mergeUserStates(current, incoming);
@@ -0,0 +1,435 @@
+// Validators return a list of human-readable issues; an empty list means the payload is usable.
+// The issues are fed back to the model verbatim as part of the corrective prompt.
+export type Validator = (data: unknown) => string[];
+
+// --- Helpers ---
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const checkString = (obj: Record<string, unknown>, key: string, path: string, issues: string[]) => {
+  if (typeof obj[key] !== 'string' || (obj[key] as string).length === 0) {
+    issues.push(`'${path}${key}' must be a non-empty string.`);
+  }
+};
+
+export const checkStringList = (obj: Record<string, unknown>, key: string, path: string, issues: string[], allowEmpty: boolean) => {
+  const list = obj[key];
+  if (!Array.isArray(list)) {
+    issues.push(`'${path}${key}' must be an array of strings.`);
+    return;
+  }
+  if (!allowEmpty && list.length === 0) {
+    issues.push(`'${path}${key}' must not be empty.`);
+  }
+  list.forEach((item, i) => {
+    if (typeof item !== 'string' || item.length === 0) {
+      issues.push(`'${path}${key}[${i}]' must be a non-empty string.`);
+    }
+  });
+};
+
+const isOneOf = (values: string[], value: unknown): boolean =>
+  typeof value === 'string' && values.includes(value);
+
+const checkScore = (obj: Record<string, unknown>, key: string, path: string, issues: string[]) => {
+  const value = obj[key];
+  if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 100) {
+    issues.push(`'${path}${key}' must be an integer between 0 and 100.`);
+  }
+};
+
+const checkRubricScore = (obj: Record<string, unknown>, path: string, issues: string[]) => {
+  checkScore(obj, 'score', path, issues);
+  checkString(obj, 'justification', path, issues);
+};
+
+// --- Repair ---
+// Safe, meaning-preserving fixes applied before validation: trimming prose strings and
+// coercing integer strings. Anything that would change the content is left to a retry.
+
+// Code keeps its whitespace: indentation is what shows the nesting in thread code blocks
+// and in the text of code review diff lines.
+const isVerbatim = (key: string, parentKey?: string) => key === 'code' || (parentKey === 'lines' && key === 'text');
+
+// Array items are repaired under their array's key, so diff line objects see 'lines' as parent.
+const repairValue = (value: unknown, key?: string): unknown => {
+  if (typeof value === 'string') return value.trim();
+  if (Array.isArray(value)) return value.map(item => repairValue(item, key));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, isVerbatim(k, key) ? v : repairValue(v, k)]));
+  }
+  return value;
+};
+
+// Only whole numbers are coerced: rounding 1.5 into an index would silently pick a different
+// option, so fractional values are left for validation to reject.
+const toInteger = (value: unknown): unknown => {
+  if (typeof value === 'string' && /^\s*-?\d+\s*$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+};
+
+export const repairPayload = (data: unknown): unknown => {
+  const repaired = repairValue(data);
+  if (!repaired || typeof repaired !== 'object' || Array.isArray(repaired)) return repaired;
+  const obj = repaired as Record<string, unknown>;
+
+  if ('score' in obj) obj.score = toInteger(obj.score);
+  if (isObject(obj.rubric)) {
+    const rubric = obj.rubric;
+    ['tone', 'grammar', 'clarity', 'conciseness'].forEach(key => {
+      if (isObject(rubric[key])) rubric[key].score = toInteger(rubric[key].score);
+    });
+    if (Array.isArray(rubric.keyPoints)) {
+      rubric.keyPoints.forEach(kp => {
+        if (isObject(kp)) kp.score = toInteger(kp.score);
+      });
+    }
+  }
+  if (Array.isArray(obj.commentFeedback)) {
+    obj.commentFeedback.forEach(f => {
+      if (!isObject(f)) return;
+      f.line = toInteger(f.line);
+      ['clarity', 'politeness'].forEach(key => {
+        if (isObject(f[key])) f[key].score = toInteger(f[key].score);
+      });
+    });
+  }
+  if (Array.isArray(obj.plantedIssues)) {
+    obj.plantedIssues.forEach(issue => {
+      if (isObject(issue)) issue.line = toInteger(issue.line);
+    });
+  }
+  if (Array.isArray(obj.questions)) {
+    obj.questions = obj.questions.map(q =>
+      q && typeof q === 'object' ? { ...q, correctIndex: toInteger((q as Record<string, unknown>).correctIndex) } : q
+    );
+  }
+  return obj;
+};
+
+// --- Validators ---
+
+const checkQuestions = (data: Record<string, unknown>, issues: string[]) => {
+  if (!Array.isArray(data.questions) || data.questions.length === 0) {
+    issues.push("'questions' must be a non-empty array.");
+    return;
+  }
+
+  data.questions.forEach((q, i) => {
+    const path = `questions[${i}].`;
+    if (!isObject(q)) {
+      issues.push(`'questions[${i}]' must be an object.`);
+      return;
+    }
+    checkString(q, 'question', path, issues);
+    checkString(q, 'explanation', path, issues);
+    checkStringList(q, 'options', path, issues, false);
+
+    const options = Array.isArray(q.options) ? q.options : [];
+    if (options.length === 1) {
+      issues.push(`'${path}options' must contain at least 2 choices.`);
+    }
+    const normalized = options.map(o => String(o).toLowerCase());
+    if (new Set(normalized).size !== normalized.length) {
+      issues.push(`'${path}options' must not contain duplicate choices.`);
+    }
+    if (!Number.isInteger(q.correctIndex) || (q.correctIndex as number) < 0 || (q.correctIndex as number) >= options.length) {
+      issues.push(`'${path}correctIndex' must be an integer between 0 and ${Math.max(options.length - 1, 0)}.`);
+    }
+  });
+};
+
+export const validateReadingExercise: Validator = (data) => {
+  const issues: string[] = [];
+  if (!isObject(data)) return ["Response must be a JSON object."];
+
+  checkString(data, 'subject', '', issues);
+  checkString(data, 'sender', '', issues);
+  checkString(data, 'body', '', issues);
+  checkQuestions(data, issues);
+  return issues;
+};
+
+// A thread needs enough back-and-forth to ask who decided what.
+const MIN_THREAD_MESSAGES = 3;
+
+export const validateThreadExercise: Validator = (data) => {
+  const issues: string[] = [];
+  if (!isObject(data)) return ["Response must be a JSON object."];
+
+  checkString(data, 'channel', '', issues);
+  if (!Array.isArray(data.messages) || data.messages.length < MIN_THREAD_MESSAGES) {
+    issues.push(`'messages' must be an array of at least ${MIN_THREAD_MESSAGES} messages.`);
+  } else {
+    data.messages.forEach((m, i) => {
+      const path = `messages[${i}].`;
+      if (!isObject(m)) {
+        issues.push(`'messages[${i}]' must be an object.`);
+        return;
+      }
+      checkString(m, 'author', path, issues);
+      checkString(m, 'role', path, issues);
+      checkString(m, 'timestamp', path, issues);
+      checkString(m, 'text', path, issues);
+      if (m.reactions !== undefined && !Array.isArray(m.reactions)) {
+        issues.push(`'${path}reactions' must be an array.`);
+      }
+    });
+  }
+  checkQuestions(data, issues);
+  return issues;
+};
+
+// Exercises built from the learner's own text also carry a vocabulary list and a paraphrase.
+export const validateCustomReadingExercise: Validator = (data) => {
+  const issues = validateReadingExercise(data);
+  if (!isObject(data)) return issues;
+
+  checkString(data, 'paraphrase', '', issues);
+  if (!Array.isArray(data.vocabulary) || data.vocabulary.length === 0) {
+    issues.push("'vocabulary' must be a non-empty array.");
+  } else {
+    data.vocabulary.forEach((item, i) => {
+      if (!isObject(item)) {
+        issues.push(`'vocabulary[${i}]' must be an object.`);
+        return;
+      }
+      checkString(item, 'term', `vocabulary[${i}].`, issues);
+      checkString(item, 'meaning', `vocabulary[${i}].`, issues);
+    });
+  }
+  return issues;
+};
+
+export const validateWritingScenario: Validator = (data) => {
+  const issues: string[] = [];
+  if (!isObject(data)) return ["Response must be a JSON object."];
+
+  checkString(data, 'context', '', issues);
+  checkString(data, 'recipientRole', '', issues);
+  checkString(data, 'goal', '', issues);
+  checkStringList(data, 'keyPoints', '', issues, false);
+  return issues;
+};
+
+const DIFF_LINE_KINDS = ['context', 'add', 'remove'];
+const REVIEW_SEVERITIES = ['nit', 'suggestion', 'blocking'];
+
+// Code review scenarios add a diff and the issues planted in it. Issues must sit on added
+// lines, since that is the only code the learner is reviewing.
+export const validateReviewScenario: Validator = (data) => {
+  const issues = validateWritingScenario(data);
+  if (!isObject(data)) return issues;
+
+  const diff = data.diff;
+  const lines: unknown[] = isObject(diff) && Array.isArray(diff.lines) ? diff.lines : [];
+  if (!isObject(diff)) {
+    issues.push("'diff' must be an object.");
+  } else {
+    checkString(diff, 'filePath', 'diff.', issues);
+    if (lines.length === 0) issues.push("'diff.lines' must be a non-empty array.");
+    lines.forEach((line, i) => {
+      if (!isObject(line) || !isOneOf(DIFF_LINE_KINDS, line.kind) || typeof line.text !== 'string') {
+        issues.push(`'diff.lines[${i}]' must have 'kind' (${DIFF_LINE_KINDS.join(' | ')}) and a string 'text'.`);
+      }
+    });
+  }
+
+  if (!Array.isArray(data.plantedIssues) || data.plantedIssues.length === 0) {
+    issues.push("'plantedIssues' must be a non-empty array.");
+  } else {
+    data.plantedIssues.forEach((issue, i) => {
+      const path = `plantedIssues[${i}].`;
+      if (!isObject(issue)) {
+        issues.push(`'plantedIssues[${i}]' must be an object.`);
+        return;
+      }
+      checkString(issue, 'description', path, issues);
+      const target = Number.isInteger(issue.line) ? lines[(issue.line as number) - 1] : undefined;
+      if (!isObject(target) || target.kind !== 'add') {
+        issues.push(`'${path}line' must be the 1-based position of an added line in 'diff.lines'.`);
+      }
+    });
+  }
+  return issues;
+};
+
+// The overall score is computed from the rubric, so the model payload carries sub-scores only.
+// expectedKeyPoints is the number of key points in the scenario being graded.
+export const validateWritingFeedback = (data: unknown, expectedKeyPoints: number): string[] => {
+  const issues: string[] = [];
+  if (!isObject(data)) return ["Response must be a JSON object."];
+
+  const rubric = data.rubric;
+  if (!isObject(rubric)) {
+    issues.push("'rubric' must be an object.");
+  } else {
+    (['tone', 'grammar', 'clarity', 'conciseness'] as const).forEach(key => {
+      const entry = rubric[key];
+      if (!isObject(entry)) {
+        issues.push(`'rubric.${key}' must be an object.`);
+      } else {
+        checkRubricScore(entry, `rubric.${key}.`, issues);
+      }
+    });
+    if (!Array.isArray(rubric.keyPoints)) {
+      issues.push("'rubric.keyPoints' must be an array.");
+    } else {
+      if (rubric.keyPoints.length !== expectedKeyPoints) {
+        issues.push(`'rubric.keyPoints' must contain exactly ${expectedKeyPoints} entries, one per scenario key point.`);
+      }
+      rubric.keyPoints.forEach((kp, i) => {
+        const path = `rubric.keyPoints[${i}].`;
+        if (!isObject(kp)) {
+          issues.push(`'rubric.keyPoints[${i}]' must be an object.`);
+          return;
+        }
+        checkString(kp, 'keyPoint', path, issues);
+        checkRubricScore(kp, path, issues);
+      });
+    }
+  }
+  checkString(data, 'critique', '', issues);
+  checkString(data, 'improvedVersion', '', issues);
+  if (!Array.isArray(data.grammarMistakes)) {
+    issues.push("'grammarMistakes' must be an array.");
+  } else {
+    data.grammarMistakes.forEach((m, i) => {
+      const path = `grammarMistakes[${i}].`;
+      if (!isObject(m)) {
+        issues.push(`'grammarMistakes[${i}]' must be an object.`);
+        return;
+      }
+      checkString(m, 'original', path, issues);
+      checkString(m, 'corrected', path, issues);
+      checkString(m, 'explanation', path, issues);
+    });
+  }
+  return issues;
+};
+
+// Review grading reuses the writing rubric (one key point per planted issue) and adds
+// one entry per learner comment, identified by the line it is anchored to.
+export const validateReviewFeedback = (data: unknown, expectedIssues: number, commentLines: number[]): string[] => {
+  const issues = validateWritingFeedback(data, expectedIssues);
+  if (!isObject(data)) return issues;
+
+  if (!Array.isArray(data.commentFeedback)) {
+    issues.push("'commentFeedback' must be an array.");
+    return issues;
+  }
+  const gradedLines = data.commentFeedback.map(f => (isObject(f) ? f.line : undefined));
+  commentLines.forEach(line => {
+    if (!gradedLines.includes(line)) issues.push(`'commentFeedback' is missing the comment on line ${line}.`);
+  });
+  data.commentFeedback.forEach((f, i) => {
+    const path = `commentFeedback[${i}].`;
+    if (!isObject(f)) {
+      issues.push(`'commentFeedback[${i}]' must be an object.`);
+      return;
+    }
+    if (typeof f.line !== 'number' || !commentLines.includes(f.line)) {
+      issues.push(`'${path}line' must be one of the commented lines: ${commentLines.join(', ')}.`);
+    }
+    (['clarity', 'politeness'] as const).forEach(key => {
+      if (!isObject(f[key])) {
+        issues.push(`'${path}${key}' must be an object.`);
+      } else {
+        checkRubricScore(f[key], `${path}${key}.`, issues);
+      }
+    });
+    if (!isOneOf(REVIEW_SEVERITIES, f.suggestedSeverity)) {
+      issues.push(`'${path}suggestedSeverity' must be one of ${REVIEW_SEVERITIES.join(', ')}.`);
+    }
+    if (typeof f.identifiesIssue !== 'boolean') {
+      issues.push(`'${path}identifiesIssue' must be a boolean.`);
+    }
+    checkString(f, 'improvedComment', path, issues);
+  });
+  return issues;
+};
+
+const SPOKEN_ISSUE_KINDS = ['filler', 'longSentence', 'structure'];
+
+// Recognized speech has no reliable punctuation or casing, so excerpts are compared on words only.
+const normalizeWords = (text: string) => text.toLowerCase().replace(/[^a-z0-9']+/g, ' ').trim();
+
+// Speaking feedback is writing feedback plus the delivery issues, each quoting the transcript.
+export const validateSpeakingFeedback = (data: unknown, expectedKeyPoints: number, transcript: string): string[] => {
+  const issues = validateWritingFeedback(data, expectedKeyPoints);
+  if (!isObject(data)) return issues;
+
+  if (!Array.isArray(data.spokenIssues)) {
+    issues.push("'spokenIssues' must be an array.");
+    return issues;
+  }
+  const spoken = normalizeWords(transcript);
+  data.spokenIssues.forEach((item, i) => {
+    const path = `spokenIssues[${i}].`;
+    if (!isObject(item)) {
+      issues.push(`'spokenIssues[${i}]' must be an object.`);
+      return;
+    }
+    if (!isOneOf(SPOKEN_ISSUE_KINDS, item.kind)) {
+      issues.push(`'${path}kind' must be one of ${SPOKEN_ISSUE_KINDS.join(', ')}.`);
+    }
+    checkString(item, 'excerpt', path, issues);
+    checkString(item, 'suggestion', path, issues);
+    if (typeof item.excerpt === 'string' && !spoken.includes(normalizeWords(item.excerpt))) {
+      issues.push(`'${path}excerpt' must be quoted from the transcript.`);
+    }
+  });
+  return issues;
+};
+
+export const validateRolePlayReply: Validator = (data) => {
+  const issues: string[] = [];
+  if (!isObject(data)) return ["Response must be a JSON object."];
+
+  checkString(data, 'message', '', issues);
+  if (typeof data.goalMet !== 'boolean') {
+    issues.push("'goalMet' must be a boolean.");
+  }
+  return issues;
+};
+
+// Role-play grading scores the whole conversation on the writing rubric and adds one note per learner message.
+export const validateRolePlayFeedback = (data: unknown, expectedKeyPoints: number, learnerTurns: number): string[] => {
+  const issues = validateWritingFeedback(data, expectedKeyPoints);
+  if (!isObject(data)) return issues;
+
+  if (!Array.isArray(data.turnNotes)) {
+    issues.push("'turnNotes' must be an array.");
+    return issues;
+  }
+  const notedTurns = data.turnNotes.map(n => (isObject(n) ? n.turn : undefined));
+  for (let turn = 1; turn <= learnerTurns; turn++) {
+    if (!notedTurns.includes(turn)) issues.push(`'turnNotes' is missing the note for learner message ${turn}.`);
+  }
+  data.turnNotes.forEach((n, i) => {
+    const path = `turnNotes[${i}].`;
+    if (!isObject(n)) {
+      issues.push(`'turnNotes[${i}]' must be an object.`);
+      return;
+    }
+    if (typeof n.turn !== 'number' || !Number.isInteger(n.turn) || n.turn < 1 || n.turn > learnerTurns) {
+      issues.push(`'${path}turn' must be an integer between 1 and ${learnerTurns}.`);
+    }
+    checkString(n, 'note', path, issues);
+  });
+  return issues;
+};
+
+export const validateTermDefinition: Validator = (data) => {
+  const issues: string[] = [];
+  if (!isObject(data)) return ["Response must be a JSON object."];
+
+  checkString(data, 'term', '', issues);
+  checkString(data, 'definition', '', issues);
+  checkString(data, 'usageNote', '', issues);
+  checkString(data, 'example', '', issues);
+  return issues;
+};
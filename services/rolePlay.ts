@@ -0,0 +1,23 @@
+import { RolePlayTurn, RolePlayTurnNote, WritingFeedback } from "../types";
+
+// Learner messages per role-play; the partner wraps the conversation up after the last one.
+export const MAX_ROLE_PLAY_TURNS = 6;
+
+export const getLearnerMessages = (conversation: RolePlayTurn[]): string[] =>
+  conversation.filter(t => t.speaker === 'learner').map(t => t.text);
+
+// Plain-text form of the learner's side, stored as the draft so history, replay and
+// grammar cards keep working on a single string.
+export const formatLearnerMessages = (conversation: RolePlayTurn[]): string =>
+  getLearnerMessages(conversation).join('\n\n');
+
+// Transcript for prompts, with learner messages numbered the way turn notes refer to them.
+export const formatConversation = (conversation: RolePlayTurn[], partner: string): string => {
+  let turn = 0;
+  return conversation
+    .map(t => (t.speaker === 'learner' ? `[${++turn}] Learner: ${t.text}` : `${partner}: ${t.text}`))
+    .join('\n');
+};
+
+export const getTurnNote = (feedback: WritingFeedback | undefined, turn: number): RolePlayTurnNote | undefined =>
+  feedback?.turnNotes?.find(n => n.turn === turn);
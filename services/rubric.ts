@@ -0,0 +1,30 @@
+import { WritingRubric, WritingSubScores, RubricDimension } from "../types";
+
+// Display order, labels and weight of each dimension in the overall writing score.
+export const RUBRIC_DIMENSIONS: { key: RubricDimension; label: string; weight: number }[] = [
+  { key: 'keyPoints', label: 'Key Point Coverage', weight: 0.3 },
+  { key: 'tone', label: 'Tone Fit', weight: 0.2 },
+  { key: 'grammar', label: 'Grammar', weight: 0.2 },
+  { key: 'clarity', label: 'Clarity', weight: 0.15 },
+  { key: 'conciseness', label: 'Conciseness', weight: 0.15 }
+];
+
+export const getSubScores = (rubric: WritingRubric): WritingSubScores => {
+  const coverage = rubric.keyPoints.length === 0
+    ? 100
+    : rubric.keyPoints.reduce((sum, kp) => sum + kp.score, 0) / rubric.keyPoints.length;
+  return {
+    keyPoints: Math.round(coverage),
+    tone: rubric.tone.score,
+    grammar: rubric.grammar.score,
+    clarity: rubric.clarity.score,
+    conciseness: rubric.conciseness.score
+  };
+};
+
+// The overall score is derived from the rubric rather than asked for separately,
+// so it can never disagree with the breakdown the learner sees.
+export const computeOverallScore = (rubric: WritingRubric): number => {
+  const subScores = getSubScores(rubric);
+  return Math.round(RUBRIC_DIMENSIONS.reduce((sum, d) => sum + subScores[d.key] * d.weight, 0));
+};
@@ -0,0 +1,90 @@
+import { ScenarioPack } from "../types";
+
+// Built-in pools the exercise generators draw scenario variables from.
+
+export const TOPICS = [
+  "Database Migration Issue",
+  "CI/CD Pipeline Failure",
+  "Frontend UI Glitch on Mobile",
+  "API Latency Spike",
+  "Third-party Integration Error",
+  "New Feature Specification Draft",
+  "Code Review Disagreement",
+  "Urgent Security Patch",
+  "Cloud Infrastructure Cost Alert",
+  "Legacy Code Refactoring Proposal",
+  "Memory Leak Investigation",
+  "Kubernetes Cluster Misconfiguration",
+  "OAuth2 Authentication Failure",
+  "Redis Cache Inconsistency",
+  "Mobile App Crash on Launch",
+  "Data Privacy Compliance Audit",
+  "Microservices Communication Timeout",
+  "Production Environment SSL Expiry",
+  "Git Merge Conflict Resolution",
+  "Sprint Planning Prioritization"
+];
+
+export const TONES = [
+  "Urgent and slightly panicked",
+  "Formal and professional",
+  "Casual and friendly",
+  "Frustrated but polite",
+  "Direct and concise",
+  "Apologetic and humble",
+  "Encouraging and supportive",
+  "Technical and detailed",
+  "Confused and seeking clarification",
+  "Cautious and hesitant"
+];
+
+// Code review mode always uses this situation; the diff replaces the prose scenario.
+export const CODE_REVIEW_SITUATION = "Giving constructive feedback on a peer's code";
+
+export const WRITING_SITUATIONS = [
+  "Requesting an extension on a deadline",
+  "Explaining a production bug to stakeholders",
+  "Declining a meeting request due to workload",
+  "Asking for clarification on vague requirements",
+  "Proposing a new technology stack to the lead",
+  "Onboarding a new team member",
+  "Reporting a blocker in the daily standup",
+  "Negotiating a release date with the Product Manager",
+  CODE_REVIEW_SITUATION,
+  "Announcing a breaking change to API consumers",
+  "Requesting budget for a new SaaS tool",
+  "Explaining a technical debt payoff plan",
+  "Apologizing for a downtime incident",
+  "Asking for help with a complex debugging issue"
+];
+
+// --- Scenario Packs ---
+// Enabled packs are registered here by the app so generators can pick up their
+// topics, few-shot examples and glossary without threading packs through every call.
+
+export interface ScenarioCatalog {
+  topics: string[];
+  situations: string[];
+  tones: string[];
+}
+
+let enabledPacks: ScenarioPack[] = [];
+
+export const setScenarioPacks = (packs: ScenarioPack[]) => {
+  enabledPacks = packs.filter(p => p.enabled);
+};
+
+// Identifies the current pack selection, e.g. so queued exercises from a disabled pack are dropped.
+export const getEnabledPackIds = (): string[] => enabledPacks.map(p => p.id).sort();
+
+const unique = (items: string[]) => Array.from(new Set(items));
+
+export const getCatalog = (): ScenarioCatalog => ({
+  topics: unique([...TOPICS, ...enabledPacks.flatMap(p => p.topics)]),
+  situations: unique([...WRITING_SITUATIONS, ...enabledPacks.flatMap(p => p.situations)]),
+  tones: unique([...TONES, ...enabledPacks.flatMap(p => p.tones)])
+});
+
+// The pack a topic or situation came from, so its examples and glossary follow the exercise.
+export const findPackFor = (topic: string | undefined): ScenarioPack | undefined =>
+  topic === undefined ? undefined : enabledPacks.find(p => p.topics.includes(topic) || p.situations.includes(topic));
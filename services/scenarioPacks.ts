@@ -0,0 +1,146 @@
+import { parse as parseYaml } from "yaml";
+import { ScenarioPack } from "../types";
+import {
+  isObject, checkString, checkStringList, repairPayload,
+  validateReadingExercise, validateWritingScenario, validateWritingFeedback
+} from "./responseValidator";
+import { Logger } from "./logger";
+
+// A scenario pack file (JSON or YAML) looks like:
+//
+//   id: payments-compliance
+//   name: Payments Compliance
+//   description: PCI DSS audits, chargebacks and settlement incidents
+//   topics: [...]            # reading topics
+//   situations: [...]        # writing situations
+//   tones: [...]             # optional
+//   examples:                # optional few-shot examples, same shape as model output
+//     reading: { subject, sender, body, questions }
+//     scenario: { context, recipientRole, goal, keyPoints }
+//     evaluation: { keyPoints, draft, output: { rubric, critique, improvedVersion, grammarMistakes } }
+//   glossary:                # optional terms the generator should work in
+//     - term: PCI DSS
+//       definition: Card industry data security standard
+
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export class ScenarioPackError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'ScenarioPackError';
+  }
+}
+
+const readFile = (text: string, fileName: string): unknown => {
+  const isJson = fileName.toLowerCase().endsWith('.json');
+  try {
+    return isJson ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    throw new ScenarioPackError(`The file is not valid ${isJson ? 'JSON' : 'YAML'}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+export const validateScenarioPack = (data: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isObject(data)) return ["The pack must be an object."];
+
+  checkString(data, 'id', '', issues);
+  if (typeof data.id === 'string' && !PACK_ID_PATTERN.test(data.id)) {
+    issues.push("'id' may only contain lowercase letters, digits and hyphens.");
+  }
+  checkString(data, 'name', '', issues);
+  if (data.description !== undefined) checkString(data, 'description', '', issues);
+
+  (['topics', 'situations', 'tones'] as const).forEach(key => {
+    if (data[key] !== undefined) checkStringList(data, key, '', issues, true);
+  });
+  const contentCount = ['topics', 'situations'].reduce((n, key) => n + (Array.isArray(data[key]) ? data[key].length : 0), 0);
+  if (contentCount === 0) {
+    issues.push("A pack must define at least one topic or situation.");
+  }
+
+  const examples = data.examples;
+  if (examples !== undefined) {
+    if (!isObject(examples)) {
+      issues.push("'examples' must be an object.");
+    } else {
+      if (examples.reading !== undefined) {
+        issues.push(...validateReadingExercise(examples.reading).map(i => `examples.reading: ${i}`));
+      }
+      if (examples.scenario !== undefined) {
+        issues.push(...validateWritingScenario(examples.scenario).map(i => `examples.scenario: ${i}`));
+      }
+      const evaluation = examples.evaluation;
+      if (evaluation !== undefined) {
+        if (!isObject(evaluation)) {
+          issues.push("'examples.evaluation' must be an object.");
+        } else {
+          checkStringList(evaluation, 'keyPoints', 'examples.evaluation.', issues, false);
+          checkString(evaluation, 'draft', 'examples.evaluation.', issues);
+          const keyPointCount = Array.isArray(evaluation.keyPoints) ? evaluation.keyPoints.length : 0;
+          issues.push(...validateWritingFeedback(evaluation.output, keyPointCount).map(i => `examples.evaluation.output: ${i}`));
+        }
+      }
+    }
+  }
+
+  if (data.glossary !== undefined) {
+    if (!Array.isArray(data.glossary)) {
+      issues.push("'glossary' must be an array.");
+    } else {
+      data.glossary.forEach((entry, i) => {
+        if (!isObject(entry)) {
+          issues.push(`'glossary[${i}]' must be an object.`);
+          return;
+        }
+        checkString(entry, 'term', `glossary[${i}].`, issues);
+        checkString(entry, 'definition', `glossary[${i}].`, issues);
+      });
+    }
+  }
+
+  return issues;
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Imported packs start enabled.
+export const parseScenarioPack = (text: string, fileName: string): ScenarioPack => {
+  const data = repairPayload(readFile(text, fileName));
+  const issues = validateScenarioPack(data);
+  if (issues.length > 0) {
+    Logger.warn("Rejected scenario pack", { fileName, issues });
+    throw new ScenarioPackError(`The pack has ${issues.length} problem${issues.length > 1 ? 's' : ''}.`, issues);
+  }
+
+  // Validation passed, but the fields are still read one by one rather than trusting the file's shape
+  if (!isObject(data)) throw new ScenarioPackError("The pack must be an object.");
+  const examples = isObject(data.examples) ? data.examples : {};
+  return {
+    id: String(data.id),
+    name: String(data.name),
+    description: typeof data.description === 'string' ? data.description : undefined,
+    enabled: true,
+    topics: toStringList(data.topics),
+    situations: toStringList(data.situations),
+    tones: toStringList(data.tones),
+    // Each example passed the same validator as the model output it imitates
+    examples: {
+      reading: examples.reading as ScenarioPack['examples']['reading'],
+      scenario: examples.scenario as ScenarioPack['examples']['scenario'],
+      evaluation: examples.evaluation as ScenarioPack['examples']['evaluation']
+    },
+    glossary: Array.isArray(data.glossary)
+      ? data.glossary.filter(isObject).map(entry => ({ term: String(entry.term), definition: String(entry.definition) }))
+      : []
+  };
+};
+
+// Re-importing a pack with the same id replaces it in place, keeping its enabled state.
+export const upsertPack = (packs: ScenarioPack[], pack: ScenarioPack): ScenarioPack[] => {
+  const existing = packs.find(p => p.id === pack.id);
+  return existing
+    ? packs.map(p => (p.id === pack.id ? { ...pack, enabled: existing.enabled } : p))
+    : [...packs, pack];
+};
@@ -0,0 +1,80 @@
+import { ExerciseFocus, ExerciseFormat, ExerciseResult, FocusSelection, ScenarioVariables } from "../types";
+import { SkillType } from "./analytics";
+import { getCatalog, CODE_REVIEW_SITUATION } from "./scenarioCatalog";
+
+// Topic/tone combinations from this many recent exercises of the same type are avoided.
+const RECENT_COMBINATION_WINDOW = 10;
+
+export const EMPTY_FOCUS: ExerciseFocus = {
+  topics: { include: [], exclude: [] },
+  situations: { include: [], exclude: [] },
+  tones: { include: [], exclude: [] }
+};
+
+export const applySelection = (pool: string[], selection: FocusSelection): string[] => {
+  const base = selection.include.length > 0 ? pool.filter(item => selection.include.includes(item)) : pool;
+  return base.filter(item => !selection.exclude.includes(item));
+};
+
+// Writing draws from situations; reading and listening from topics. All share the tone pool.
+export const getTopicKey = (type: SkillType): 'topics' | 'situations' =>
+  type === 'writing' ? 'situations' : 'topics';
+
+export const getTopicPool = (type: SkillType): string[] => getCatalog()[getTopicKey(type)];
+
+// Code review pins the situation, so only the tone part of the learner's focus applies.
+export const withCodeReviewFocus = (focus: ExerciseFocus): ExerciseFocus => ({
+  ...focus,
+  situations: { include: [CODE_REVIEW_SITUATION], exclude: [] }
+});
+
+export const getTonePool = (): string[] => getCatalog().tones;
+
+export const getEligibleTopics = (type: SkillType, focus: ExerciseFocus): string[] =>
+  applySelection(getTopicPool(type), focus[getTopicKey(type)]);
+
+export const getEligibleTones = (focus: ExerciseFocus): string[] => applySelection(getTonePool(), focus.tones);
+
+const combinationKey = (topic: string, tone: string) => `${topic}\u0000${tone}`;
+
+const getRecentCombinations = (history: ExerciseResult[], type: SkillType): Set<string> => {
+  const keys = history
+    .filter(entry => entry.type === type)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-RECENT_COMBINATION_WINDOW)
+    .map(entry => {
+      const source = entry.transcript?.type === 'writing' ? entry.transcript.scenario : entry.transcript?.exercise;
+      return source?.topic && source.tone ? combinationKey(source.topic, source.tone) : null;
+    })
+    .filter((key): key is string => key !== null);
+  return new Set(keys);
+};
+
+const getRandom = <T>(arr: T[]): T => arr[Math.floor(Math.random() * arr.length)];
+
+// Random topic and tone within the learner's focus, skipping recently seen combinations.
+// When the focus is so narrow that every combination was seen recently, repeats are allowed.
+// Returns null when the focus excludes everything.
+export const pickScenarioVariables = (
+  type: SkillType,
+  focus: ExerciseFocus,
+  history: ExerciseResult[]
+): ScenarioVariables | null => {
+  const topics = getEligibleTopics(type, focus);
+  const tones = getEligibleTones(focus);
+  if (topics.length === 0 || tones.length === 0) return null;
+
+  const recent = getRecentCombinations(history, type);
+  const combinations = topics.flatMap(topic => tones.map(tone => ({ topic, tone })));
+  const fresh = combinations.filter(c => !recent.has(combinationKey(c.topic, c.tone)));
+  return getRandom(fresh.length > 0 ? fresh : combinations);
+};
+
+// Variables for an exercise in the given format; code review pins the situation.
+export const pickExerciseVariables = (
+  type: SkillType,
+  format: ExerciseFormat,
+  focus: ExerciseFocus,
+  history: ExerciseResult[]
+): ScenarioVariables | null =>
+  pickScenarioVariables(type, type === 'writing' && format === 'review' ? withCodeReviewFocus(focus) : focus, history);
@@ -0,0 +1,100 @@
+import { ExerciseTranscript, ReviewCard } from "../types";
+
+// Recall quality on the SM-2 scale (0-5). The review UI exposes four of them.
+export enum ReviewGrade {
+  AGAIN = 1,
+  HARD = 3,
+  GOOD = 4,
+  EASY = 5
+}
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (from: Date, days: number): string => new Date(from.getTime() + days * DAY_MS).toISOString();
+
+const newCard = (fields: Pick<ReviewCard, 'kind' | 'prompt' | 'answer' | 'explanation' | 'source' | 'context'>, now: Date): ReviewCard => ({
+  ...fields,
+  id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+  createdAt: now.toISOString(),
+  easeFactor: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  // New cards are due immediately
+  dueDate: now.toISOString()
+});
+
+// Turns a finished exercise into review cards: every missed reading or listening question,
+// and every grammar correction from the writing feedback.
+export const createReviewCards = (transcript: ExerciseTranscript, now = new Date()): ReviewCard[] => {
+  if (transcript.type !== 'writing') {
+    const { exercise, answers } = transcript;
+    return exercise.questions
+      .filter((q, i) => answers[i] !== q.correctIndex)
+      .map(q => newCard({
+        kind: 'reading',
+        prompt: q.question,
+        answer: q.options[q.correctIndex],
+        explanation: q.explanation,
+        source: exercise.subject,
+        context: exercise.body
+      }, now));
+  }
+
+  // A revised draft contributes the corrections from every attempt, each original only once
+  const attempts = transcript.revisions?.map(r => r.feedback) ?? [transcript.feedback];
+  const mistakes = attempts
+    .flatMap(f => f.grammarMistakes)
+    .filter((m, i, all) => all.findIndex(other => other.original === m.original) === i);
+
+  return mistakes.map(m => newCard({
+    kind: 'grammar',
+    prompt: m.original,
+    answer: m.corrected,
+    explanation: m.explanation,
+    source: transcript.scenario.recipientRole
+  }, now));
+};
+
+// Standard SM-2: failed recalls restart the card, successful ones grow the interval by the ease factor.
+export const scheduleReview = (card: ReviewCard, grade: ReviewGrade, now = new Date()): ReviewCard => {
+  let { repetitions, interval } = card;
+
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * card.easeFactor);
+  }
+
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  return { ...card, repetitions, interval, easeFactor, dueDate: addDays(now, interval) };
+};
+
+// Two cards drill the same mistake when they share a kind and prompt, whatever their ids.
+export const reviewCardKey = (card: ReviewCard): string => `${card.kind}:${card.prompt}`;
+
+// Adds new cards to the deck. A mistake that is already in the deck is not duplicated;
+// instead the existing card is reset so the learner drills it again right away.
+export const mergeIntoDeck = (deck: ReviewCard[], incoming: ReviewCard[]): ReviewCard[] => {
+  const result = [...deck];
+  incoming.forEach(card => {
+    const existing = result.findIndex(c => reviewCardKey(c) === reviewCardKey(card));
+    if (existing >= 0) {
+      result[existing] = { ...result[existing], repetitions: 0, interval: 0, dueDate: card.dueDate };
+    } else {
+      result.push(card);
+    }
+  });
+  return result;
+};
+
+export const getDueCards = (deck: ReviewCard[], now = new Date()): ReviewCard[] =>
+  deck
+    .filter(c => new Date(c.dueDate).getTime() <= now.getTime())
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
@@ -0,0 +1,232 @@
+import { Logger } from "./logger";
+
+// Thin wrappers around the browser's speech APIs: synthesis for listening exercises,
+// recognition for speaking practice.
+
+// --- Synthesis ---
+
+export const PLAYBACK_RATES = [0.75, 0.9, 1, 1.15];
+
+const ACCENT_NAMES: Record<string, string> = {
+  'en-US': 'American',
+  'en-GB': 'British',
+  'en-AU': 'Australian',
+  'en-CA': 'Canadian',
+  'en-IE': 'Irish',
+  'en-IN': 'Indian',
+  'en-NZ': 'New Zealand',
+  'en-SG': 'Singaporean',
+  'en-ZA': 'South African'
+};
+
+// Chrome fills the voice list asynchronously and may never fire voiceschanged when it is empty.
+const VOICE_LOAD_TIMEOUT_MS = 1500;
+
+export const isSpeechSynthesisSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// Some platforms report 'en_GB' instead of 'en-GB'
+export const getAccentName = (lang: string): string => ACCENT_NAMES[lang.replace('_', '-')] ?? lang;
+
+const englishOnly = (voices: SpeechSynthesisVoice[]) => voices.filter(v => v.lang.toLowerCase().startsWith('en'));
+
+export const loadEnglishVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isSpeechSynthesisSupported()) return Promise.resolve([]);
+  const synth = window.speechSynthesis;
+  const ready = synth.getVoices();
+  if (ready.length > 0) return Promise.resolve(englishOnly(ready));
+
+  return new Promise(resolve => {
+    const finish = () => {
+      clearTimeout(timer);
+      synth.removeEventListener('voiceschanged', finish);
+      resolve(englishOnly(synth.getVoices()));
+    };
+    const timer = setTimeout(finish, VOICE_LOAD_TIMEOUT_MS);
+    synth.addEventListener('voiceschanged', finish);
+  });
+};
+
+// Chrome stops long utterances after about 15 seconds, so text is queued one sentence at a time.
+// That also gives the player a position to resume from after a speed or voice change.
+export const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+
+export interface SpeechCallbacks {
+  onSentence?: (index: number) => void; // A sentence started playing
+  onEnd?: () => void;                   // The last sentence finished
+}
+
+// A synthesizer cancelled while paused stays paused in Chrome, so the next playback would be silent.
+const cancelAll = (synth: SpeechSynthesis) => {
+  synth.cancel();
+  synth.resume();
+};
+
+// Incremented on every new playback so events from cancelled utterances are ignored.
+let session = 0;
+
+export const speak = (
+  sentences: string[],
+  options: { voice?: SpeechSynthesisVoice; rate: number; startAt?: number },
+  callbacks: SpeechCallbacks = {}
+) => {
+  if (!isSpeechSynthesisSupported()) return;
+  const synth = window.speechSynthesis;
+  const current = ++session;
+  cancelAll(synth);
+
+  const startAt = options.startAt ?? 0;
+  sentences.slice(startAt).forEach((sentence, i) => {
+    const utterance = new SpeechSynthesisUtterance(sentence);
+    utterance.lang = options.voice?.lang ?? 'en-US';
+    if (options.voice) utterance.voice = options.voice;
+    utterance.rate = options.rate;
+    utterance.onstart = () => {
+      if (current === session) callbacks.onSentence?.(startAt + i);
+    };
+    utterance.onerror = (event) => {
+      // 'interrupted' and 'canceled' are our own stop/restart calls
+      if (event.error !== 'interrupted' && event.error !== 'canceled') {
+        Logger.warn("Speech synthesis failed", { error: event.error });
+      }
+    };
+    if (startAt + i === sentences.length - 1) {
+      utterance.onend = () => {
+        if (current === session) callbacks.onEnd?.();
+      };
+    }
+    synth.speak(utterance);
+  });
+};
+
+export const pauseSpeech = () => {
+  if (isSpeechSynthesisSupported()) window.speechSynthesis.pause();
+};
+
+export const resumeSpeech = () => {
+  if (isSpeechSynthesisSupported()) window.speechSynthesis.resume();
+};
+
+export const stopSpeech = () => {
+  if (!isSpeechSynthesisSupported()) return;
+  session++;
+  cancelAll(window.speechSynthesis);
+};
+
+// --- Recognition ---
+
+// SpeechRecognition is still prefixed in Chrome and Safari, and the DOM typings do not declare it.
+interface RecognitionResultEvent extends Event {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface RecognitionErrorEvent extends Event {
+  error: string;
+}
+
+interface Recognizer {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type RecognizerConstructor = new () => Recognizer;
+
+const getRecognizer = (): RecognizerConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const w = window as unknown as { SpeechRecognition?: RecognizerConstructor; webkitSpeechRecognition?: RecognizerConstructor };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition;
+};
+
+export const isSpeechRecognitionSupported = (): boolean => !!getRecognizer();
+
+export type DictationError = 'not-allowed' | 'no-microphone' | 'network' | 'unknown';
+
+const DICTATION_ERRORS: Record<string, DictationError> = {
+  'not-allowed': 'not-allowed',
+  'service-not-allowed': 'not-allowed',
+  'audio-capture': 'no-microphone',
+  'network': 'network'
+};
+
+export interface DictationCallbacks {
+  onText: (final: string, interim: string) => void; // Everything recognized so far, and the words still being decided
+  onError?: (error: DictationError) => void;         // Dictation has stopped and cannot continue
+  onEnd?: () => void;                                // Recognition has fully stopped
+}
+
+export interface DictationSession {
+  stop: () => void;   // Finishes the pending words, then ends
+  cancel: () => void; // Ends immediately without further callbacks
+}
+
+// Chrome ends a continuous session after a few seconds of silence, so recognition is
+// restarted until the learner stops it. Each restart begins a new result list.
+export const startDictation = (callbacks: DictationCallbacks): DictationSession | null => {
+  const Recognition = getRecognizer();
+  if (!Recognition) return null;
+
+  const finals: string[] = [];
+  let stopped = false;
+  let cancelled = false;
+  let recognizer: Recognizer;
+
+  const begin = () => {
+    const offset = finals.length;
+    recognizer = new Recognition();
+    recognizer.lang = 'en-US';
+    recognizer.continuous = true;
+    recognizer.interimResults = true;
+
+    recognizer.onresult = (event) => {
+      if (cancelled) return;
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          finals[offset + i] = result[0].transcript.trim();
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+      callbacks.onText(finals.filter(Boolean).join(' '), interim.trim());
+    };
+    recognizer.onerror = (event) => {
+      // Silence and our own abort() end the session; onend decides whether to restart
+      if (cancelled || event.error === 'no-speech' || event.error === 'aborted') return;
+      stopped = true;
+      Logger.warn("Speech recognition failed", { error: event.error });
+      callbacks.onError?.(DICTATION_ERRORS[event.error] ?? 'unknown');
+    };
+    recognizer.onend = () => {
+      if (cancelled) return;
+      if (stopped) {
+        callbacks.onEnd?.();
+      } else {
+        begin();
+      }
+    };
+    recognizer.start();
+  };
+
+  begin();
+  return {
+    stop: () => {
+      stopped = true;
+      recognizer.stop();
+    },
+    cancel: () => {
+      stopped = true;
+      cancelled = true;
+      recognizer.abort();
+    }
+  };
+};
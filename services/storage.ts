@@ -0,0 +1,295 @@
+import { UserState, ExerciseResult, ReviewCard, FocusProfile, ScenarioPack, VocabularyEntry, MockTestResult } from "../types";
+import { StorageBackend, detectBackend, localStorageBackend } from "./storageBackends";
+import { Logger } from "./logger";
+import { isObject } from "./responseValidator";
+import { DEFAULT_STARTING_RATING, levelToRating } from "./difficulty";
+
+const STORAGE_KEY = 'techcomm-user';
+const BACKUP_KEY = `${STORAGE_KEY}.backup`;
+// Each quarantined copy gets its own timestamped key so a later one never replaces it
+const QUARANTINE_PREFIX = `${STORAGE_KEY}.quarantine`;
+
+export const CURRENT_SCHEMA_VERSION = 7;
+
+// Raised by loadUserState when the save was written by a newer version of the app.
+// It is left untouched and saving is disabled, so opening an old tab can't destroy it.
+export class NewerSaveError extends Error {
+  public readonly version: number;
+
+  constructor(version: number) {
+    super(`Saved progress uses schema v${version}, newer than this app's v${CURRENT_SCHEMA_VERSION}`);
+    this.name = 'NewerSaveError';
+    this.version = version;
+  }
+}
+
+// What actually gets written to storage. Saves from before versioning are a bare UserState.
+interface StoredEnvelope {
+  version: number;
+  savedAt: string;
+  data: unknown;
+}
+
+// --- Migrations ---
+// Each entry upgrades data from `to - 1` to `to`. Keep them ordered and never edit a shipped one.
+
+interface Migration {
+  to: number;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+const MIGRATIONS: Migration[] = [
+  // v1 -> v2: spaced-repetition review deck
+  { to: 2, migrate: (data) => ({ ...data, reviewDeck: data.reviewDeck ?? [] }) },
+  // v2 -> v3: saved focus profiles for topic/tone selection
+  { to: 3, migrate: (data) => ({ ...data, focusProfiles: data.focusProfiles ?? [] }) },
+  // v3 -> v4: imported scenario packs
+  { to: 4, migrate: (data) => ({ ...data, scenarioPacks: data.scenarioPacks ?? [] }) },
+  // v4 -> v5: vocabulary notebook
+  { to: 5, migrate: (data) => ({ ...data, vocabulary: data.vocabulary ?? [] }) },
+  // v5 -> v6: mock test reports
+  { to: 6, migrate: (data) => ({ ...data, mockTests: data.mockTests ?? [] }) },
+  // v6 -> v7: skill estimates start from a stored rating instead of following the XP level.
+  // Existing learners keep the rating their current level implied, so nothing jumps.
+  { to: 7, migrate: (data) => ({
+    ...data,
+    startingRating: data.startingRating ?? (typeof data.level === 'number' ? levelToRating(data.level) : DEFAULT_STARTING_RATING)
+  }) }
+];
+
+const runMigrations = (data: unknown, fromVersion: number): unknown => {
+  // Not a state object at all; validation rejects it
+  if (!isObject(data)) return data;
+  return MIGRATIONS
+    .filter(m => m.to > fromVersion && m.to <= CURRENT_SCHEMA_VERSION)
+    .sort((a, b) => a.to - b.to)
+    .reduce((acc, m) => {
+      Logger.info(`Migrating user state to schema v${m.to}`);
+      return m.migrate(acc);
+    }, data);
+};
+
+// --- Validation ---
+
+const isValidResult = (entry: unknown): entry is ExerciseResult =>
+  isObject(entry) &&
+  typeof entry.id === 'string' &&
+  (entry.type === 'reading' || entry.type === 'writing' || entry.type === 'listening') &&
+  typeof entry.score === 'number' && entry.score >= 0 && entry.score <= 100 &&
+  typeof entry.date === 'string' &&
+  typeof entry.level === 'number' &&
+  (entry.difficulty === undefined || typeof entry.difficulty === 'number') &&
+  (entry.transcript === undefined || (isObject(entry.transcript) && entry.transcript.type === entry.type));
+
+const isValidCard = (card: unknown): card is ReviewCard =>
+  isObject(card) &&
+  typeof card.id === 'string' &&
+  (card.kind === 'reading' || card.kind === 'grammar') &&
+  typeof card.prompt === 'string' &&
+  typeof card.answer === 'string' &&
+  typeof card.dueDate === 'string' &&
+  typeof card.easeFactor === 'number' &&
+  typeof card.interval === 'number' &&
+  typeof card.repetitions === 'number';
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isValidSelection = (selection: unknown): boolean =>
+  isObject(selection) && isStringList(selection.include) && isStringList(selection.exclude);
+
+const isValidProfile = (profile: unknown): profile is FocusProfile =>
+  isObject(profile) &&
+  typeof profile.id === 'string' &&
+  typeof profile.name === 'string' &&
+  isObject(profile.focus) &&
+  isValidSelection(profile.focus.topics) &&
+  isValidSelection(profile.focus.situations) &&
+  isValidSelection(profile.focus.tones);
+
+// Pack contents were fully validated on import; this only guards against a damaged save.
+const isValidPack = (pack: unknown): pack is ScenarioPack =>
+  isObject(pack) &&
+  typeof pack.id === 'string' &&
+  typeof pack.name === 'string' &&
+  typeof pack.enabled === 'boolean' &&
+  isStringList(pack.topics) &&
+  isStringList(pack.situations) &&
+  isStringList(pack.tones) &&
+  isObject(pack.examples) &&
+  Array.isArray(pack.glossary);
+
+const isValidVocabularyEntry = (entry: unknown): entry is VocabularyEntry =>
+  isObject(entry) &&
+  typeof entry.id === 'string' &&
+  typeof entry.term === 'string' &&
+  typeof entry.definition === 'string' &&
+  typeof entry.usageNote === 'string' &&
+  typeof entry.example === 'string' &&
+  typeof entry.addedAt === 'string' &&
+  typeof entry.quizAttempts === 'number' &&
+  typeof entry.quizCorrect === 'number';
+
+const isValidMockTest = (test: unknown): test is MockTestResult =>
+  isObject(test) &&
+  typeof test.id === 'string' &&
+  typeof test.date === 'string' &&
+  typeof test.durationSeconds === 'number' &&
+  Array.isArray(test.items) &&
+  isObject(test.skills) &&
+  isObject(test.skills.reading) &&
+  isObject(test.skills.writing);
+
+export interface ValidationOutcome {
+  state: UserState | null;
+  dropped: number;
+  error?: string;
+}
+
+// Top-level fields must be sound; individual bad rows are dropped rather than losing the whole save.
+const validateUserState = (data: unknown): ValidationOutcome => {
+  if (!isObject(data) ||
+      typeof data.level !== 'number' || !Number.isInteger(data.level) || data.level < 1 ||
+      typeof data.xp !== 'number' || data.xp < 0 ||
+      typeof data.xpToNextLevel !== 'number' || data.xpToNextLevel <= 0 ||
+      typeof data.startingRating !== 'number' ||
+      !Array.isArray(data.history) || !Array.isArray(data.reviewDeck) || !Array.isArray(data.focusProfiles) ||
+      !Array.isArray(data.scenarioPacks) || !Array.isArray(data.vocabulary) || !Array.isArray(data.mockTests)) {
+    return { state: null, dropped: 0, error: "Saved data failed validation" };
+  }
+
+  const history = data.history.filter(isValidResult);
+  const reviewDeck = data.reviewDeck.filter(isValidCard);
+  const focusProfiles = data.focusProfiles.filter(isValidProfile);
+  const scenarioPacks = data.scenarioPacks.filter(isValidPack);
+  const vocabulary = data.vocabulary.filter(isValidVocabularyEntry);
+  const mockTests = data.mockTests.filter(isValidMockTest);
+  const dropped = (data.history.length - history.length) +
+    (data.reviewDeck.length - reviewDeck.length) +
+    (data.focusProfiles.length - focusProfiles.length) +
+    (data.scenarioPacks.length - scenarioPacks.length) +
+    (data.vocabulary.length - vocabulary.length) +
+    (data.mockTests.length - mockTests.length);
+
+  return {
+    state: { level: data.level, xp: data.xp, xpToNextLevel: data.xpToNextLevel, startingRating: data.startingRating, history, reviewDeck, focusProfiles, scenarioPacks, vocabulary, mockTests },
+    dropped
+  };
+};
+
+// Brings data written at any older schema version up to date and validates it.
+// Shared by the local save and by imported progress files.
+export const upgradeUserState = (data: unknown, version: number): ValidationOutcome => {
+  if (version > CURRENT_SCHEMA_VERSION) {
+    return { state: null, dropped: 0, error: `Saved with newer schema v${version}` };
+  }
+  let migrated: unknown;
+  try {
+    migrated = runMigrations(data, version);
+  } catch (e) {
+    return { state: null, dropped: 0, error: `Migration from v${version} failed: ${e instanceof Error ? e.message : String(e)}` };
+  }
+  return validateUserState(migrated);
+};
+
+// --- Backend selection ---
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+const getBackend = (): Promise<StorageBackend> => {
+  if (!backendPromise) {
+    backendPromise = detectBackend().then(async backend => {
+      Logger.info(`Using ${backend.name} for persistence`);
+      // Move saves written by earlier versions of the app out of localStorage
+      if (backend !== localStorageBackend) {
+        const legacy = localStorage.getItem(STORAGE_KEY);
+        if (legacy !== null && (await backend.getItem(STORAGE_KEY)) === null) {
+          await backend.setItem(STORAGE_KEY, legacy);
+          localStorage.removeItem(STORAGE_KEY);
+          Logger.info("Moved saved progress from localStorage to IndexedDB");
+        }
+      }
+      return backend;
+    });
+  }
+  return backendPromise;
+};
+
+// Backups and quarantine copies are best-effort: failing to write one (e.g. quota exceeded)
+// must not fail the load, or the caller would fall back to defaults and save over the data.
+const writeCopy = async (backend: StorageBackend, key: string, value: string) => {
+  try {
+    await backend.setItem(key, value);
+  } catch (e) {
+    Logger.warn(`Could not write ${key}`, e);
+  }
+};
+
+const quarantine = async (backend: StorageBackend, raw: string, reason: string) => {
+  Logger.error("Quarantining unreadable user state", { reason });
+  await writeCopy(backend, `${QUARANTINE_PREFIX}.${Date.now()}`, JSON.stringify({ reason, quarantinedAt: new Date().toISOString(), raw }));
+};
+
+// --- Public API ---
+
+// Set once a newer save has been seen; from then on saveUserState refuses to write.
+let newerSaveVersion: number | null = null;
+
+// Resolves to null when nothing usable is saved, so callers can start a fresh profile.
+// Rejects with NewerSaveError when the save comes from a newer version of the app.
+export const loadUserState = async (): Promise<UserState | null> => {
+  const backend = await getBackend();
+  const raw = await backend.getItem(STORAGE_KEY);
+  if (raw === null) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    await quarantine(backend, raw, "Saved data is not valid JSON");
+    return null;
+  }
+
+  const isEnvelope = isObject(parsed) && typeof parsed.version === 'number' && 'data' in parsed;
+  const version = isEnvelope ? (parsed as StoredEnvelope).version : 1;
+  const data = isEnvelope ? (parsed as StoredEnvelope).data : parsed;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    newerSaveVersion = version;
+    throw new NewerSaveError(version);
+  }
+
+  if (version < CURRENT_SCHEMA_VERSION) {
+    await writeCopy(backend, BACKUP_KEY, raw);
+  }
+
+  const { state, dropped, error } = upgradeUserState(data, version);
+  if (!state) {
+    await quarantine(backend, raw, error ?? "Saved data failed validation");
+    return null;
+  }
+  if (dropped > 0) {
+    await quarantine(backend, raw, `Dropped ${dropped} malformed entries`);
+  }
+
+  Logger.info("User state loaded", { version, backend: backend.name });
+  return state;
+};
+
+// Writes are chained so a slow IndexedDB transaction can't be overtaken by a newer one.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export const saveUserState = (state: UserState): Promise<void> => {
+  if (newerSaveVersion !== null) {
+    Logger.warn("Not saving over progress from a newer version of the app", { version: newerSaveVersion });
+    return Promise.resolve();
+  }
+  const envelope: StoredEnvelope = { version: CURRENT_SCHEMA_VERSION, savedAt: new Date().toISOString(), data: state };
+  pendingWrite = pendingWrite
+    .then(async () => {
+      const backend = await getBackend();
+      await backend.setItem(STORAGE_KEY, JSON.stringify(envelope));
+    })
+    .catch(e => Logger.error("Failed to save user state", e));
+  return pendingWrite;
+};
@@ -0,0 +1,73 @@
+import { Logger } from "./logger";
+
+// Minimal async key-value contract so the persistence layer can sit on either
+// localStorage (small, synchronous) or IndexedDB (large, asynchronous).
+export interface StorageBackend {
+  name: 'localStorage' | 'indexedDB';
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export const localStorageBackend: StorageBackend = {
+  name: 'localStorage',
+  getItem: async (key) => localStorage.getItem(key),
+  setItem: async (key, value) => localStorage.setItem(key, value),
+  removeItem: async (key) => localStorage.removeItem(key)
+};
+
+// --- IndexedDB ---
+
+const DB_NAME = 'techcomm-ai';
+const STORE_NAME = 'kv';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const indexedDBBackend: StorageBackend = {
+  name: 'indexedDB',
+  getItem: async (key) => {
+    const value = await runRequest<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  },
+  setItem: async (key, value) => {
+    await runRequest('readwrite', store => store.put(value, key));
+  },
+  removeItem: async (key) => {
+    await runRequest('readwrite', store => store.delete(key));
+  }
+};
+
+// Prefer IndexedDB so a long history doesn't hit the ~5MB localStorage quota.
+export const detectBackend = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB === 'undefined') {
+    return localStorageBackend;
+  }
+  try {
+    await openDatabase();
+    return indexedDBBackend;
+  } catch (e) {
+    Logger.warn("IndexedDB unavailable, falling back to localStorage", e);
+    return localStorageBackend;
+  }
+};
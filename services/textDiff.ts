@@ -0,0 +1,123 @@
+import { GrammarMistake } from "../types";
+
+export type DiffSegmentType = 'equal' | 'insert' | 'delete' | 'replace';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  before: string;        // Text from the user's draft ('' for insertions)
+  after: string;         // Text from the improved version ('' for deletions)
+  mistakeIndex?: number; // Index into grammarMistakes when the change matches a correction
+}
+
+interface Token {
+  text: string;
+  start: number; // Character offset in the source string
+}
+
+// Above this many LCS cells the diff degrades to one whole-text replacement to keep the UI responsive.
+const MAX_DIFF_CELLS = 400_000;
+
+// Words and line breaks are tokens; other whitespace only separates them.
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(/\n+|[^\s]+/g), m => ({ text: m[0], start: m.index ?? 0 }));
+
+const joinTokens = (tokens: Token[]): string =>
+  tokens.reduce((acc, t, i) => {
+    const needsSpace = i > 0 && !t.text.startsWith('\n') && !tokens[i - 1].text.startsWith('\n');
+    return acc + (needsSpace ? ' ' : '') + t.text;
+  }, '');
+
+type Op = { kind: 'equal' | 'insert' | 'delete'; token: Token };
+
+// Classic LCS table walk; drafts are a few hundred words at most.
+const diffTokens = (a: Token[], b: Token[]): Op[] => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint16Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i].text === b[j].text
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].text === b[j].text) {
+      ops.push({ kind: 'equal', token: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      ops.push({ kind: 'delete', token: a[i++] });
+    } else {
+      ops.push({ kind: 'insert', token: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ kind: 'delete', token: a[i++] });
+  while (j < b.length) ops.push({ kind: 'insert', token: b[j++] });
+  return ops;
+};
+
+// Character range of each mistake's quoted 'original' inside the draft, or null if it can't be found.
+const locateMistakes = (draft: string, mistakes: GrammarMistake[]): ([number, number] | null)[] => {
+  const haystack = draft.toLowerCase();
+  return mistakes.map(m => {
+    const needle = m.original.toLowerCase().replace(/^["'“‘]|["'”’.]$/g, '').trim();
+    const start = needle ? haystack.indexOf(needle) : -1;
+    return start >= 0 ? [start, start + needle.length] : null;
+  });
+};
+
+// Finds the correction whose quoted text overlaps the changed span of the draft.
+// Pure insertions have an empty span, so they match a correction that contains the insertion point.
+const findMistake = (ranges: ([number, number] | null)[], from: number, to: number): number | undefined => {
+  const index = ranges.findIndex(r => r !== null && (from === to ? from >= r[0] && from <= r[1] : from < r[1] && to > r[0]));
+  return index >= 0 ? index : undefined;
+};
+
+export const diffWords = (draft: string, improved: string, mistakes: GrammarMistake[] = []): DiffSegment[] => {
+  const a = tokenize(draft);
+  const b = tokenize(improved);
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return [{ type: 'replace', before: draft, after: improved }];
+  }
+
+  const ranges = locateMistakes(draft, mistakes);
+  const segments: DiffSegment[] = [];
+  const ops = diffTokens(a, b);
+
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].kind === 'equal') {
+      const run: Token[] = [];
+      while (k < ops.length && ops[k].kind === 'equal') run.push(ops[k++].token);
+      const text = joinTokens(run);
+      segments.push({ type: 'equal', before: text, after: text });
+      continue;
+    }
+
+    // Collect a run of adjacent deletions/insertions; having both makes it a substitution
+    const deleted: Token[] = [];
+    const inserted: Token[] = [];
+    // Where an insertion lands in the draft: just after the preceding (always 'equal') token
+    const anchor = k > 0 ? ops[k - 1].token.start + ops[k - 1].token.text.length : 0;
+    while (k < ops.length && ops[k].kind !== 'equal') {
+      (ops[k].kind === 'delete' ? deleted : inserted).push(ops[k].token);
+      k++;
+    }
+
+    const from = deleted.length > 0 ? deleted[0].start : anchor;
+    const to = deleted.length > 0 ? deleted[deleted.length - 1].start + deleted[deleted.length - 1].text.length : anchor;
+    segments.push({
+      type: deleted.length === 0 ? 'insert' : inserted.length === 0 ? 'delete' : 'replace',
+      before: joinTokens(deleted),
+      after: joinTokens(inserted),
+      mistakeIndex: findMistake(ranges, from, to)
+    });
+  }
+
+  return segments;
+};
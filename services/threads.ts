@@ -0,0 +1,30 @@
+import { ReadingExercise, ReadingQuestion, ThreadMessage } from "../types";
+
+// Shape the model (or a fixture) produces for a chat-thread exercise.
+export interface ThreadPayload {
+  channel: string;
+  messages: ThreadMessage[];
+  questions: ReadingQuestion[];
+}
+
+// Plain-text transcript used wherever a single body string is expected (review cards, lookups, exports).
+export const threadToPlainText = (messages: ThreadMessage[]): string =>
+  messages
+    .map((m, i) => {
+      const header = `#${i + 1} ${m.author} (${m.role}) ${m.timestamp}`;
+      return [header, m.text, m.code ? `\`\`\`\n${m.code}\n\`\`\`` : ''].filter(Boolean).join('\n');
+    })
+    .join('\n\n');
+
+export const toThreadExercise = (payload: ThreadPayload): ReadingExercise => ({
+  subject: payload.channel,
+  sender: payload.messages.length > 0 ? `${payload.messages[0].author}, ${payload.messages[0].role}` : payload.channel,
+  body: threadToPlainText(payload.messages),
+  format: 'thread',
+  messages: payload.messages,
+  questions: payload.questions
+});
+
+// Splits message text into plain runs and @mentions for highlighting.
+export const splitMentions = (text: string): { text: string; mention: boolean }[] =>
+  text.split(/(@[\w.-]+)/g).filter(Boolean).map(part => ({ text: part, mention: part.startsWith('@') }));
@@ -0,0 +1,104 @@
+import { TermDefinition, VocabularyEntry } from "../types";
+
+// Longest selection (in words) that is treated as a term rather than a sentence.
+export const MAX_TERM_WORDS = 6;
+
+// Options shown per quiz question, including the correct one.
+const QUIZ_OPTION_COUNT = 4;
+
+export interface QuizQuestion {
+  entry: VocabularyEntry;
+  options: string[]; // Terms; exactly one is entry.term
+}
+
+const normalizeTerm = (term: string) => term.trim().toLowerCase();
+
+export const isDefinableSelection = (text: string): boolean => {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  return words.length > 0 && words.length <= MAX_TERM_WORDS && /[A-Za-z]/.test(text);
+};
+
+// The sentence of `text` that contains `term`, used as the lookup context and saved with the entry.
+export const extractContext = (text: string, term: string): string => {
+  const sentences = text.split(/(?<=[.!?])\s+|\n+/).map(t => t.trim()).filter(Boolean);
+  return sentences.find(s => s.toLowerCase().includes(normalizeTerm(term))) ?? term;
+};
+
+export const createVocabularyEntry = (definition: TermDefinition, context?: string, now = new Date()): VocabularyEntry => ({
+  ...definition,
+  id: `vocab-${now.getTime()}-${normalizeTerm(definition.term).replace(/\s+/g, '-')}`,
+  context,
+  addedAt: now.toISOString(),
+  quizAttempts: 0,
+  quizCorrect: 0
+});
+
+// Saving a term that is already in the notebook refreshes its definition but keeps its quiz record.
+export const upsertVocabularyEntry = (notebook: VocabularyEntry[], entry: VocabularyEntry): VocabularyEntry[] => {
+  const existing = notebook.find(e => normalizeTerm(e.term) === normalizeTerm(entry.term));
+  if (!existing) return [...notebook, entry];
+  return notebook.map(e => (e === existing
+    ? { ...entry, id: existing.id, addedAt: existing.addedAt, quizAttempts: existing.quizAttempts, quizCorrect: existing.quizCorrect }
+    : e));
+};
+
+export const hasTerm = (notebook: VocabularyEntry[], term: string): boolean =>
+  notebook.some(e => normalizeTerm(e.term) === normalizeTerm(term));
+
+export const searchVocabulary = (notebook: VocabularyEntry[], query: string): VocabularyEntry[] => {
+  const q = normalizeTerm(query);
+  const matches = q
+    ? notebook.filter(e => [e.term, e.definition, e.usageNote, e.example].some(field => field.toLowerCase().includes(q)))
+    : notebook;
+  return [...matches].sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+};
+
+// Never-quizzed entries sort below any accuracy, including 0%, so they come up first.
+const quizPriority = (entry: VocabularyEntry) => (entry.quizAttempts === 0 ? -1 : entry.quizCorrect / entry.quizAttempts);
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches a word and its common inflections: roll → rolled, configure → configuring,
+// stop → stopped, apply → applied. Anything that isn't a plain word is matched as written.
+const inflectedWordPattern = (word: string): string => {
+  if (!/^[a-z]+$/i.test(word)) return escapeRegExp(word);
+  const stem = /[^aeiou]y$/i.test(word) || (/e$/i.test(word) && word.length > 2) ? word.slice(0, -1) : word;
+  return `${stem}(?:${stem.slice(-1)})?(?:ies|ied|ying|ing|es|ed|e|s|d|y)?`;
+};
+
+// Blanks out the term in its saved context, including inflected forms ("rolled back" for a saved
+// "roll back"), so the quiz hint doesn't give the answer away.
+export const maskTerm = (context: string, term: string): string => {
+  const words = term.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return context;
+  const pattern = words.map(inflectedWordPattern).join('[\\s-]+');
+  return context.replace(new RegExp(`(?<![\\w])${pattern}(?![\\w])`, 'gi'), '____');
+};
+
+// Weakest entries first (never quizzed, then lowest accuracy), shuffled within equal accuracy.
+export const buildQuiz = (notebook: VocabularyEntry[], length: number): QuizQuestion[] => {
+  if (notebook.length < 2) return [];
+  const ordered = shuffle(notebook).sort((a, b) => quizPriority(a) - quizPriority(b));
+
+  return ordered.slice(0, length).map(entry => {
+    const distractors = shuffle(notebook.filter(e => e.id !== entry.id))
+      .slice(0, QUIZ_OPTION_COUNT - 1)
+      .map(e => e.term);
+    return { entry, options: shuffle([entry.term, ...distractors]) };
+  });
+};
+
+export const recordQuizResult = (entry: VocabularyEntry, correct: boolean): VocabularyEntry => ({
+  ...entry,
+  quizAttempts: entry.quizAttempts + 1,
+  quizCorrect: entry.quizCorrect + (correct ? 1 : 0)
+});
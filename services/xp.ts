@@ -0,0 +1,18 @@
+import { ExerciseTranscript } from "../types";
+
+const XP_PER_SCORE_POINT = 1.5;
+// Awarded per point gained between the first and final attempt of a revised draft
+const XP_PER_IMPROVEMENT_POINT = 2;
+
+export const getImprovementBonus = (firstScore: number, finalScore: number): number =>
+  Math.round(Math.max(0, finalScore - firstScore) * XP_PER_IMPROVEMENT_POINT);
+
+// Writing XP is anchored to the first attempt so revising can't farm the base award;
+// improvement on top of that earns the bonus.
+export const calculateXp = (score: number, transcript: ExerciseTranscript): number => {
+  if (transcript.type === 'writing' && transcript.revisions && transcript.revisions.length > 1) {
+    const firstScore = transcript.revisions[0].feedback.score;
+    return Math.round(firstScore * XP_PER_SCORE_POINT) + getImprovementBonus(firstScore, score);
+  }
+  return Math.round(score * XP_PER_SCORE_POINT);
+};
@@ -8,17 +8,58 @@ export interface UserState {
   level: number;
   xp: number;
   xpToNextLevel: number;
+  startingRating: number; // Prior for the skill estimates, set by placement
   history: ExerciseResult[];
+  reviewDeck: ReviewCard[];
+  focusProfiles: FocusProfile[];
+  scenarioPacks: ScenarioPack[];
+  vocabulary: VocabularyEntry[];
+  mockTests: MockTestResult[];
 }
 
 export interface ExerciseResult {
   id: string;
-  type: 'reading' | 'writing';
+  type: 'reading' | 'writing' | 'listening';
   score: number;
   date: string;
   level: number;
+  transcript?: ExerciseTranscript; // Absent on entries saved before transcripts were recorded
+  subScores?: WritingSubScores;    // Writing only, for per-dimension trends
+  difficulty?: number;             // Target rating the exercise was generated for (adaptive engine)
 }
 
+export interface ReadingTranscript {
+  type: 'reading';
+  exercise: ReadingExercise;
+  answers: number[]; // Chosen option index per question
+}
+
+export interface WritingRevision {
+  draft: string; // For code review, the comments rendered as text
+  comments?: ReviewComment[]; // Code review only
+  feedback: WritingFeedback;
+  submittedAt: string;
+}
+
+export interface WritingTranscript {
+  type: 'writing';
+  scenario: WritingScenario;
+  userDraft: string;          // Final draft
+  comments?: ReviewComment[]; // Final review comments (code review only)
+  feedback: WritingFeedback;  // Feedback on the final draft
+  revisions?: WritingRevision[]; // Every attempt in order; the last one is the final draft
+  conversation?: RolePlayTurn[]; // Role-play only; userDraft holds the learner's messages
+}
+
+// Same questions and scoring as reading; the body was played as audio instead of shown.
+export interface ListeningTranscript {
+  type: 'listening';
+  exercise: ReadingExercise;
+  answers: number[];
+}
+
+export type ExerciseTranscript = ReadingTranscript | WritingTranscript | ListeningTranscript;
+
 export interface ReadingQuestion {
   question: string;
   options: string[];
@@ -26,29 +67,327 @@ export interface ReadingQuestion {
   explanation: string;
 }
 
+// --- Adaptive Difficulty ---
+
+export type VocabularyBand = 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export type IdiomDensity = 'none' | 'low' | 'medium' | 'high';
+
+// Fine-grained knobs the difficulty engine hands to the exercise generators.
+export interface GenerationParams {
+  targetRating: number;     // Elo-style item difficulty the content should be pitched at
+  vocabularyBand: VocabularyBand;
+  messageLength: number;    // Approximate word count of the generated message
+  idiomDensity: IdiomDensity;
+  distractorCount: number;  // Wrong options per reading question
+}
+
+// --- Exercise Focus ---
+
+// Empty `include` means "anything not excluded".
+export interface FocusSelection {
+  include: string[];
+  exclude: string[];
+}
+
+export interface ExerciseFocus {
+  topics: FocusSelection;     // Reading topics
+  situations: FocusSelection; // Writing situations
+  tones: FocusSelection;
+}
+
+export interface FocusProfile {
+  id: string;
+  name: string;
+  focus: ExerciseFocus;
+}
+
+// The topic (or writing situation) and tone a single exercise is generated from.
+export interface ScenarioVariables {
+  topic: string;
+  tone: string;
+}
+
+// --- Scenario Packs ---
+
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+}
+
+export interface EvaluationExample {
+  keyPoints: string[];
+  draft: string;
+  output: Omit<WritingFeedback, 'score'>;
+}
+
+// Team-defined content bundle imported from a JSON or YAML file.
+export interface ScenarioPack {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  topics: string[];     // Reading topics
+  situations: string[]; // Writing situations
+  tones: string[];
+  examples: {
+    reading?: ReadingExercise;
+    scenario?: WritingScenario;
+    evaluation?: EvaluationExample;
+  };
+  glossary: GlossaryTerm[];
+}
+
+export interface VocabularyItem {
+  term: string;
+  meaning: string; // Japanese gloss as used in this text
+}
+
+export type ReadingFormat = 'email' | 'thread';
+
+// Spoken formats: a voicemail left for the learner, or something said in a standup or call.
+export type ListeningFormat = 'voicemail' | 'meeting';
+
+export interface ThreadReaction {
+  emoji: string;
+  count: number;
+}
+
+export interface ThreadMessage {
+  author: string;
+  role: string;
+  timestamp: string;  // As shown in the chat client, e.g. "10:42 AM"
+  text: string;       // May contain @mentions
+  code?: string;      // Optional code block attached to the message
+  reactions?: ThreadReaction[];
+}
+
+// Thread exercises still fill subject/sender/body (channel, thread starter, plain-text transcript)
+// so review cards, exports and vocabulary lookups work the same for both formats.
+// Listening exercises use the same shape: subject is the call or meeting, sender the speaker, body the spoken text.
 export interface ReadingExercise {
   subject: string;
   sender: string;
   body: string;
+  format?: ReadingFormat | ListeningFormat; // Absent means 'email'
+  messages?: ThreadMessage[]; // Thread format only, in posting order
   questions: ReadingQuestion[];
+  topic?: string; // Generation topic, recorded for analytics
+  tone?: string;  // Generation tone, recorded so recent combinations aren't repeated
+  custom?: boolean;              // Built from text the learner pasted in
+  vocabulary?: VocabularyItem[]; // Custom text only
+  paraphrase?: string;           // Custom text only: the message restated in plain English
+}
+
+// Text a learner brings in for bring-your-own-text reading practice.
+export interface CustomReadingText {
+  body: string;
+  sender?: string;
+  subject?: string;
+}
+
+// Where a reading exercise comes from: the generator, or the learner's own text.
+export type ReadingSource =
+  | { kind: 'generated'; format: ReadingFormat; variables: ScenarioVariables; exercise?: ReadingExercise } // exercise: already prefetched
+  | { kind: 'custom'; text: CustomReadingText };
+
+export type WritingFormat = 'message' | 'review' | 'spoken' | 'roleplay';
+
+// Format chosen on the setup screen; which values apply depends on the skill.
+export type ExerciseFormat = ReadingFormat | WritingFormat | ListeningFormat;
+
+export interface ListeningSource {
+  format: ListeningFormat;
+  variables: ScenarioVariables;
+  exercise?: ReadingExercise; // Already prefetched
+}
+
+export type DiffLineKind = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string; // Line content without the +/- prefix
+}
+
+export interface CodeDiff {
+  filePath: string;
+  lines: DiffLine[]; // Review comments anchor to 1-based positions in this list
+}
+
+// The problem deliberately placed in a review diff; hidden from the learner until grading.
+export interface PlantedIssue {
+  line: number;        // 1-based position in CodeDiff.lines
+  description: string; // What is wrong and why (in Japanese)
 }
 
 export interface WritingScenario {
-  context: string;
+  context: string; // For code review, the pull request description
   recipientRole: string;
   goal: string;
   keyPoints: string[];
+  topic?: string; // Generation situation, recorded for analytics
+  tone?: string;
+  format?: WritingFormat; // Absent on scenarios recorded before code review mode ('message')
+  diff?: CodeDiff;                // Code review only
+  plantedIssues?: PlantedIssue[]; // Code review only
 }
 
-export interface WritingFeedback {
+export type ReviewSeverity = 'nit' | 'suggestion' | 'blocking';
+
+export interface ReviewComment {
+  line: number; // 1-based position in CodeDiff.lines
+  severity: ReviewSeverity;
+  text: string;
+}
+
+export interface ReviewCommentFeedback {
+  line: number; // Identifies the learner's comment being graded
+  clarity: RubricScore;
+  politeness: RubricScore; // Includes whether the nit/blocking label fits the problem
+  suggestedSeverity: ReviewSeverity;
+  identifiesIssue: boolean; // Points at a planted issue
+  improvedComment: string;  // Native-level rewrite of the comment
+}
+
+export interface GrammarMistake {
+  original: string;   // The erroneous phrase as the user wrote it
+  corrected: string;  // The corrected phrase
+  explanation: string; // Why it was wrong (in Japanese)
+}
+
+export type SpokenIssueKind = 'filler' | 'longSentence' | 'structure';
+
+// A habit of spoken delivery flagged in a dictated response.
+export interface SpokenIssue {
+  kind: SpokenIssueKind;
+  excerpt: string;    // The words as recognized in the transcript
+  suggestion: string; // How to say it instead (in Japanese)
+}
+
+export interface RolePlayTurn {
+  speaker: 'learner' | 'partner'; // partner: the AI playing the scenario's recipientRole
+  text: string;
+}
+
+export interface RolePlayReply {
+  message: string;
+  goalMet: boolean; // The partner considers the scenario goal reached
+}
+
+export interface RolePlayTurnNote {
+  turn: number; // 1-based position among the learner's messages
+  note: string; // What worked and what to change in that message (in Japanese)
+}
+
+export interface RubricScore {
   score: number; // 0-100
+  justification: string; // Short reason (in Japanese)
+}
+
+export interface KeyPointCoverage extends RubricScore {
+  keyPoint: string; // The scenario key point being assessed
+}
+
+export interface WritingRubric {
+  keyPoints: KeyPointCoverage[];
+  tone: RubricScore;       // Fit for the recipientRole
+  grammar: RubricScore;
+  clarity: RubricScore;
+  conciseness: RubricScore;
+}
+
+export type RubricDimension = 'keyPoints' | 'tone' | 'grammar' | 'clarity' | 'conciseness';
+
+export type WritingSubScores = Record<RubricDimension, number>;
+
+export interface WritingFeedback {
+  score: number; // 0-100, weighted from the rubric
   critique: string;
   improvedVersion: string;
-  grammarMistakes: string[];
+  grammarMistakes: GrammarMistake[];
+  rubric?: WritingRubric; // Absent on feedback recorded before rubric grading
+  commentFeedback?: ReviewCommentFeedback[]; // Code review only, one per learner comment
+  spokenIssues?: SpokenIssue[]; // Speaking only
+  turnNotes?: RolePlayTurnNote[]; // Role-play only, one per learner message
+}
+
+// Feedback text received so far while an evaluation is still streaming.
+export type PartialWritingFeedback = Partial<Pick<WritingFeedback, 'critique' | 'improvedVersion'>>;
+
+export interface ReviewCard {
+  id: string;
+  kind: 'reading' | 'grammar';
+  prompt: string;      // Missed question, or the original sentence
+  answer: string;      // Correct option, or the corrected sentence
+  explanation: string;
+  source: string;      // Where the card came from (email subject / recipient)
+  context?: string;    // Email body the reading question refers to
+  createdAt: string;
+  // SM-2 scheduling state
+  easeFactor: number;
+  interval: number;    // Days until the next review
+  repetitions: number;
+  dueDate: string;
+}
+
+// --- Vocabulary Notebook ---
+
+// What the AI returns when a learner selects a word or phrase.
+export interface TermDefinition {
+  term: string;
+  definition: string; // Japanese
+  usageNote: string;  // Japanese: nuance, register, common collocations
+  example: string;    // English example sentence in an engineering context
+}
+
+export interface VocabularyEntry extends TermDefinition {
+  id: string;
+  context?: string; // Sentence the term was selected from
+  addedAt: string;
+  quizAttempts: number;
+  quizCorrect: number;
 }
 
 export enum AppMode {
   DASHBOARD = 'DASHBOARD',
   READING = 'READING',
-  WRITING = 'WRITING'
-}
\ No newline at end of file
+  WRITING = 'WRITING',
+  REVIEW = 'REVIEW',
+  REPLAY = 'REPLAY',
+  LISTENING = 'LISTENING',
+  SETUP = 'SETUP',
+  VOCABULARY = 'VOCABULARY',
+  MOCK_TEST = 'MOCK_TEST',
+  MOCK_TEST_REPORT = 'MOCK_TEST_REPORT',
+  PLACEMENT = 'PLACEMENT'
+}
+
+// --- Mock Test ---
+
+export type MockTestSkill = 'reading' | 'writing';
+
+export interface MockTestItemResult {
+  skill: MockTestSkill;
+  difficulty: number; // Target rating the item was generated for
+  score: number;      // 0-100; unanswered items score 0
+  title: string;      // Email subject or writing recipient, listed on the report
+  subScores?: WritingSubScores; // Writing only
+}
+
+export interface MockTestSkillResult {
+  band: VocabularyBand; // CEFR-style band for the rating
+  rating: number;       // Rating that best fits the item results
+  score: number;        // Mean item score
+}
+
+// A finished timed assessment, kept so its report can be reopened and printed later.
+export interface MockTestResult {
+  id: string;
+  date: string;
+  level: number;
+  timeLimitSeconds: number;
+  durationSeconds: number;
+  timedOut: boolean;
+  items: MockTestItemResult[];
+  skills: Record<MockTestSkill, MockTestSkillResult>;
+}
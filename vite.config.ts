@@ -10,7 +10,9 @@ export default defineConfig(({ mode }) => {
     root: '.',
     define: {
       // Define process.env.API_KEY so the code works without modification
-      'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY || env.API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.VITE_API_KEY || env.API_KEY),
+      // 'gemini' or 'fixture' (offline). Defaults to 'fixture' when no API key is set.
+      'process.env.AI_PROVIDER': JSON.stringify(env.VITE_AI_PROVIDER || env.AI_PROVIDER || '')
     },
     build: {
       outDir: 'dist',